@@ -0,0 +1,156 @@
+import axios from 'axios';
+import type { IncomingHttpHeaders } from 'http';
+import { FigmaAuthError } from './errors.js';
+
+const REFRESH_URL = 'https://api.figma.com/v1/oauth/refresh';
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * A personal access token, or an OAuth access token with an optional
+ * refresh token.
+ */
+export type FigmaCredentials =
+  | { type: 'pat'; token: string }
+  | { type: 'oauth'; token: string; refreshToken?: string; expiresAt?: number };
+
+/**
+ * The OAuth app used to refresh access tokens.
+ */
+export interface OAuthClientConfig {
+  clientId: string;
+  clientSecret: string;
+}
+
+export interface AuthInfo {
+  type: FigmaCredentials['type'];
+  source: 'config' | 'session';
+  expiresAt?: string;
+  refreshable: boolean;
+}
+
+function headerValue(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first?.trim() || undefined;
+}
+
+/**
+ * Reads the Figma credentials an HTTP client sent for its session:
+ * `X-Figma-Token` for a personal access token, or `X-Figma-OAuth-Token` with
+ * an optional `X-Figma-Refresh-Token`.
+ */
+export function credentialsFromHeaders(headers: IncomingHttpHeaders): FigmaCredentials | undefined {
+  const oauthToken = headerValue(headers, 'x-figma-oauth-token');
+  if (oauthToken) {
+    return {
+      type: 'oauth',
+      token: oauthToken.replace(/^Bearer\s+/i, ''),
+      refreshToken: headerValue(headers, 'x-figma-refresh-token'),
+    };
+  }
+  const token = headerValue(headers, 'x-figma-token');
+  return token ? { type: 'pat', token } : undefined;
+}
+
+/**
+ * Holds the credentials of one identity, signs requests with them and
+ * refreshes OAuth access tokens before they expire or once Figma rejects them.
+ */
+export class FigmaAuth {
+  readonly source: AuthInfo['source'];
+  private credentials: FigmaCredentials;
+  private oauthClient?: OAuthClientConfig;
+  private refreshing?: Promise<void>;
+
+  constructor(credentials: FigmaCredentials, source: AuthInfo['source'], oauthClient?: OAuthClientConfig) {
+    this.credentials = { ...credentials };
+    this.source = source;
+    this.oauthClient = oauthClient;
+  }
+
+  canRefresh(): boolean {
+    return this.credentials.type === 'oauth' && Boolean(this.credentials.refreshToken && this.oauthClient);
+  }
+
+  private expiresSoon(): boolean {
+    return (
+      this.credentials.type === 'oauth' &&
+      this.credentials.expiresAt !== undefined &&
+      this.credentials.expiresAt - Date.now() < REFRESH_MARGIN_MS
+    );
+  }
+
+  async headers(): Promise<{ [name: string]: string }> {
+    if (this.expiresSoon() && this.canRefresh()) {
+      await this.refresh();
+    }
+    return this.signature();
+  }
+
+  private signature(): { [name: string]: string } {
+    return this.credentials.type === 'oauth'
+      ? { Authorization: `Bearer ${this.credentials.token}` }
+      : { 'X-Figma-Token': this.credentials.token };
+  }
+
+  /**
+   * Exchanges the refresh token for a new access token. Concurrent callers
+   * share one refresh request, so it is not tied to any one caller's signal.
+   * Pass the headers of a rejected request to skip the refresh when the
+   * token was already replaced since that request was signed.
+   */
+  async refresh(rejected?: { [name: string]: string }): Promise<void> {
+    if (rejected && rejected.Authorization !== this.signature().Authorization) return;
+    if (!this.refreshing) {
+      this.refreshing = this.requestRefresh().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async requestRefresh(): Promise<void> {
+    const credentials = this.credentials;
+    if (credentials.type !== 'oauth' || !credentials.refreshToken || !this.oauthClient) {
+      throw new FigmaAuthError(
+        'Cannot refresh the Figma access token: a refresh token, FIGMA_OAUTH_CLIENT_ID and FIGMA_OAUTH_CLIENT_SECRET are required'
+      );
+    }
+
+    console.debug('[MCP Debug] Refreshing Figma OAuth token', { source: this.source });
+    try {
+      const response = await axios.post(
+        REFRESH_URL,
+        new URLSearchParams({
+          client_id: this.oauthClient.clientId,
+          client_secret: this.oauthClient.clientSecret,
+          refresh_token: credentials.refreshToken,
+        }),
+        { timeout: 30000 }
+      );
+      const { access_token, expires_in } = response.data ?? {};
+      if (typeof access_token !== 'string') {
+        throw new Error('Response did not include an access_token');
+      }
+      this.credentials = {
+        ...credentials,
+        token: access_token,
+        expiresAt: typeof expires_in === 'number' ? Date.now() + expires_in * 1000 : undefined,
+      };
+    } catch (error: any) {
+      const detail = error.response?.data?.message || error.message;
+      throw new FigmaAuthError(`Failed to refresh the Figma access token: ${detail}`, error.response?.status);
+    }
+  }
+
+  describe(): AuthInfo {
+    const { type } = this.credentials;
+    const expiresAt = this.credentials.type === 'oauth' ? this.credentials.expiresAt : undefined;
+    return {
+      type,
+      source: this.source,
+      expiresAt: expiresAt !== undefined ? new Date(expiresAt).toISOString() : undefined,
+      refreshable: this.canRefresh(),
+    };
+  }
+}
@@ -0,0 +1,274 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { DocumentNode, SceneNode } from './types.js';
+
+export interface CacheConfig {
+  maxEntries: number;
+  maxSizeMB: number;
+  ttlSeconds: number; // how long an entry is trusted before its version is rechecked
+  directory?: string; // persist snapshots on disk when set
+}
+
+/**
+ * A parsed Figma file snapshot as stored in the cache.
+ */
+export interface CachedFile {
+  fileKey: string;
+  name: string;
+  version: string;
+  lastModified: string;
+  document: DocumentNode;
+  components: { [key: string]: any };
+  styles: { [key: string]: any };
+  sizeMB: number;
+  validatedAt: number;
+}
+
+/**
+ * A /nodes response for a set of node ids, stored alongside file snapshots.
+ */
+export interface CachedNodes {
+  fileKey: string;
+  ids: string[]; // sorted
+  version: string;
+  nodes: { [id: string]: any };
+  sizeMB: number;
+  validatedAt: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  sizeMB: number;
+  files: Array<{ fileKey: string; name: string; version: string; lastModified: string; sizeMB: number }>;
+}
+
+function indexNodes(document: DocumentNode): Map<string, SceneNode> {
+  const index = new Map<string, SceneNode>();
+  const stack: SceneNode[] = [...document.children];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    index.set(node.id, node);
+    if ('children' in node) {
+      stack.push(...node.children);
+    }
+  }
+  return index;
+}
+
+/**
+ * LRU cache of parsed file snapshots keyed by file key and version, with
+ * optional on-disk persistence so snapshots survive server restarts.
+ */
+export class FileCache {
+  private config: CacheConfig;
+  private entries: Map<string, CachedFile>;
+  private nodeIndexes: Map<string, Map<string, SceneNode>>;
+  private nodeResponses: Map<string, CachedNodes>;
+
+  constructor(config: CacheConfig) {
+    this.config = config;
+    this.entries = new Map();
+    this.nodeIndexes = new Map();
+    this.nodeResponses = new Map();
+  }
+
+  private diskPath(fileKey: string): string {
+    return path.join(this.config.directory!, `${encodeURIComponent(fileKey)}.json`);
+  }
+
+  private totalSizeMB(): number {
+    let total = 0;
+    for (const entry of [...this.entries.values(), ...this.nodeResponses.values()]) {
+      total += entry.sizeMB;
+    }
+    return total;
+  }
+
+  private nodesKey(fileKey: string, ids: string[]): string {
+    return `${fileKey}/${[...ids].sort().join(',')}`;
+  }
+
+  /**
+   * Evicts least recently used entries until the cache fits its limits. Node
+   * responses go before file snapshots, which are costlier to download.
+   */
+  private evict(keep?: string) {
+    // Map iteration order is insertion order, so the first key is least recently used
+    const count = () => this.entries.size + this.nodeResponses.size;
+    while (count() > 1 && (count() > this.config.maxEntries || this.totalSizeMB() > this.config.maxSizeMB)) {
+      const oldestNodes = [...this.nodeResponses.keys()].find((key) => key !== keep);
+      if (oldestNodes !== undefined) {
+        this.nodeResponses.delete(oldestNodes);
+        continue;
+      }
+      const oldest = this.entries.keys().next().value as string;
+      console.debug('[MCP Debug] Evicting cached file:', oldest);
+      this.entries.delete(oldest);
+      this.nodeIndexes.delete(oldest);
+    }
+  }
+
+  private remember(entry: CachedFile) {
+    if (this.entries.get(entry.fileKey) !== entry) {
+      this.nodeIndexes.delete(entry.fileKey);
+    }
+    this.entries.delete(entry.fileKey);
+    this.entries.set(entry.fileKey, entry);
+    this.evict();
+  }
+
+  private async readFromDisk(fileKey: string): Promise<CachedFile | undefined> {
+    if (!this.config.directory) return undefined;
+    try {
+      const raw = await fs.readFile(this.diskPath(fileKey), 'utf-8');
+      console.debug('[MCP Debug] Loaded cached file from disk:', fileKey);
+      const entry: CachedFile = JSON.parse(raw);
+      entry.sizeMB = Buffer.byteLength(raw) / 1024 / 1024;
+      return entry;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error('[MCP Error] Failed to read cached file:', error);
+      }
+      return undefined;
+    }
+  }
+
+  private async writeToDisk(entry: CachedFile, serialized: string) {
+    if (!this.config.directory) return;
+    try {
+      await fs.mkdir(this.config.directory, { recursive: true });
+      await fs.writeFile(this.diskPath(entry.fileKey), serialized);
+      await this.pruneDisk();
+    } catch (error) {
+      console.error('[MCP Error] Failed to write cached file:', error);
+    }
+  }
+
+  private async pruneDisk() {
+    const directory = this.config.directory!;
+    const names = (await fs.readdir(directory)).filter((name) => name.endsWith('.json'));
+    const files = await Promise.all(
+      names.map(async (name) => {
+        const stat = await fs.stat(path.join(directory, name));
+        return { name, size: stat.size, mtime: stat.mtimeMs };
+      })
+    );
+    files.sort((a, b) => a.mtime - b.mtime);
+
+    let totalMB = files.reduce((sum, file) => sum + file.size, 0) / 1024 / 1024;
+    let count = files.length;
+    // Always keep the newest snapshot, even if it alone exceeds the limit
+    for (const file of files.slice(0, -1)) {
+      if (count <= this.config.maxEntries && totalMB <= this.config.maxSizeMB) break;
+      await fs.rm(path.join(directory, file.name), { force: true });
+      totalMB -= file.size / 1024 / 1024;
+      count--;
+    }
+  }
+
+  async get(fileKey: string): Promise<CachedFile | undefined> {
+    const entry = this.entries.get(fileKey) ?? (await this.readFromDisk(fileKey));
+    if (entry) {
+      this.remember(entry);
+    }
+    return entry;
+  }
+
+  async set(file: Omit<CachedFile, 'sizeMB' | 'validatedAt'>): Promise<CachedFile> {
+    const entry: CachedFile = { ...file, sizeMB: 0, validatedAt: Date.now() };
+    const serialized = JSON.stringify(entry);
+    entry.sizeMB = Buffer.byteLength(serialized) / 1024 / 1024;
+    this.remember(entry);
+    await this.writeToDisk(entry, serialized);
+    return entry;
+  }
+
+  /**
+   * Returns the cached /nodes response for exactly these ids, in any order.
+   * Node responses are kept in memory only.
+   */
+  getNodes(fileKey: string, ids: string[]): CachedNodes | undefined {
+    const key = this.nodesKey(fileKey, ids);
+    const entry = this.nodeResponses.get(key);
+    if (entry) {
+      this.nodeResponses.delete(key);
+      this.nodeResponses.set(key, entry);
+    }
+    return entry;
+  }
+
+  setNodes(response: Omit<CachedNodes, 'sizeMB' | 'validatedAt'>): CachedNodes {
+    const entry: CachedNodes = {
+      ...response,
+      ids: [...response.ids].sort(),
+      sizeMB: Buffer.byteLength(JSON.stringify(response.nodes)) / 1024 / 1024,
+      validatedAt: Date.now(),
+    };
+    const key = this.nodesKey(entry.fileKey, entry.ids);
+    this.nodeResponses.delete(key);
+    this.nodeResponses.set(key, entry);
+    this.evict(key);
+    return entry;
+  }
+
+  isFresh(entry: { validatedAt: number }): boolean {
+    return Date.now() - entry.validatedAt < this.config.ttlSeconds * 1000;
+  }
+
+  markValidated(entry: { validatedAt: number }) {
+    entry.validatedAt = Date.now();
+  }
+
+  findNode(fileKey: string, nodeId: string): SceneNode | undefined {
+    const entry = this.entries.get(fileKey);
+    if (!entry) return undefined;
+
+    let index = this.nodeIndexes.get(fileKey);
+    if (!index) {
+      index = indexNodes(entry.document);
+      this.nodeIndexes.set(fileKey, index);
+    }
+    return index.get(nodeId);
+  }
+
+  async clear(fileKey?: string): Promise<number> {
+    const cleared = new Set<string>();
+    const keys = fileKey ? [fileKey] : [...this.entries.keys()];
+    for (const key of keys) {
+      if (this.entries.delete(key)) cleared.add(key);
+      this.nodeIndexes.delete(key);
+    }
+    for (const [key, entry] of this.nodeResponses) {
+      if (!fileKey || entry.fileKey === fileKey) this.nodeResponses.delete(key);
+    }
+
+    if (this.config.directory) {
+      try {
+        const names = (await fs.readdir(this.config.directory)).filter((name) =>
+          fileKey ? name === path.basename(this.diskPath(fileKey)) : name.endsWith('.json')
+        );
+        for (const name of names) {
+          await fs.rm(path.join(this.config.directory, name), { force: true });
+          cleared.add(decodeURIComponent(name.replace(/\.json$/, '')));
+        }
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+          console.error('[MCP Error] Failed to clear cache directory:', error);
+        }
+      }
+    }
+
+    return cleared.size;
+  }
+
+  stats(): CacheStats {
+    const files = [...this.entries.values()].map((entry) => ({
+      fileKey: entry.fileKey,
+      name: entry.name,
+      version: entry.version,
+      lastModified: entry.lastModified,
+      sizeMB: entry.sizeMB,
+    }));
+    return { entries: files.length, sizeMB: this.totalSizeMB(), files };
+  }
+}
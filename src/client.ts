@@ -1,29 +1,141 @@
-import axios, { AxiosInstance } from 'axios';
-import type { DocumentNode, SceneNode } from './types.js';
+import axios from 'axios';
+import type {
+  DocumentNode,
+  FigmaComment,
+  FigmaCommentReaction,
+  FigmaComponent,
+  FigmaComponentSet,
+  FigmaFile,
+  FigmaProject,
+  FigmaPublishedStyle,
+  PublishedVariable,
+  PublishedVariableCollection,
+  SceneNode,
+} from './types.js';
+import { CachedFile, CachedNodes, FileCache } from './cache.js';
+import { CodeTarget, GeneratedCode, generateCode } from './codegen.js';
+import {
+  CommentFilter,
+  CommentFormat,
+  CommentThread,
+  buildThreads,
+  formatThreadsMarkdown,
+  locateNodes,
+  pinnedNodeIds,
+} from './comments.js';
+import { ComponentSetGroup, groupByComponentSet, toComponent, toComponentSet } from './library.js';
+import { ChangeGroup, DiffGrouping, NodeChange, diffDocuments, groupChanges } from './diff.js';
+import { AuthInfo, FigmaAuth } from './auth.js';
+import { FigmaApiError, FigmaNotFoundError } from './errors.js';
+import { FigmaHttpClient, HttpConfig } from './http.js';
+import {
+  ExportedImage,
+  ImageExportOptions,
+  ImageFillUsage,
+  collectImageRefs,
+  planImageRenders,
+} from './images.js';
+import { DesignTokens, TokenFormat, buildDesignTokens } from './tokens.js';
+import {
+  LocalVariables,
+  ResolvedVariable,
+  collectBoundVariableIds,
+  resolveLocalVariables,
+  resolveVariable,
+} from './variables.js';
+import {
+  CursorState,
+  InvalidCursorError,
+  encodeCursor,
+  hashFilterOptions,
+  verifyCursor,
+} from './cursor.js';
+import { NodeSummary, SummaryContext, SummaryLevel, summarizeNode } from './summary.js';
+import { NodeMatcher, NodeQuery, SearchMatch, compileQuery, toSearchMatch } from './search.js';
+import { OutlineEntry, OutlineFormat, TraversedNode, buildOutlineTree, formatOutlineText, outlineEntry } from './outline.js';
 
 interface ChunkConfig {
   pageSize: number;
-  maxMemoryMB: number;
+  maxTokens: number; // approximate token budget per response
   nodeTypes?: string[];
   maxDepth?: number;
   excludeProps?: string[];
-  maxResponseSize?: number; // in MB
-  summarizeNodes?: boolean;
+  summarizeNodes?: boolean; // shorthand for summaryLevel 'compact'
+  summaryLevel?: SummaryLevel;
+  collapseInstances?: boolean; // return runs of instances of one component as a single node
 }
 
+// Rough ratio for JSON text; close enough to budget responses, not to bill them
+const CHARS_PER_TOKEN = 4;
+
+function estimateTokens(value: unknown): number {
+  return Math.ceil(JSON.stringify(value).length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Maps a file from a project listing, which uses snake_case, to FigmaFile.
+ */
+function toFigmaFile(file: any): FigmaFile {
+  return {
+    key: file.key,
+    name: file.name,
+    lastModified: file.last_modified,
+    thumbnailUrl: file.thumbnail_url,
+    branches: file.branches?.map(toFigmaFile),
+  };
+}
+
+/**
+ * End index of a page of items starting at `start`, filled until pageSize
+ * items or roughly maxTokens tokens. Always includes at least one item, even
+ * if it alone exceeds the budget.
+ */
+function pageEnd(items: unknown[], start: number, pageSize: number, maxTokens: number): number {
+  let end = start;
+  let tokens = 0;
+  while (end < items.length && end - start < pageSize) {
+    const cost = estimateTokens(items[end]);
+    if (end > start && tokens + cost > maxTokens) break;
+    tokens += cost;
+    end++;
+  }
+  return end;
+}
+
+function resolveSummaryLevel(config: ChunkConfig): SummaryLevel {
+  return config.summaryLevel ?? (config.summarizeNodes ? 'compact' : 'full');
+}
+
+/**
+ * Replaces a node's children with their ids, so a node only accounts for
+ * its own properties and descendants are returned as separate nodes.
+ */
+function withChildIds<T extends SceneNode | NodeSummary>(node: T): T {
+  if (!('children' in node) || !Array.isArray(node.children)) return node;
+  const { children, ...rest } = node as any;
+  return { ...rest, childIds: children.map((child: SceneNode) => child.id) };
+}
+
+interface ProcessedNode {
+  node: SceneNode | NodeSummary;
+  tokens: number;
+}
+
+type NodeProjection = (node: SceneNode, ancestors: SceneNode[]) => SceneNode | NodeSummary;
+
 class StreamingNodeProcessor {
   private processedNodes: Set<string>;
   private config: ChunkConfig;
-  private currentSize: number;
+  private context: SummaryContext;
+  private usedTokens: number;
+  private project: NodeProjection;
 
-  constructor(config: ChunkConfig) {
+  constructor(config: ChunkConfig, context: SummaryContext = {}, project?: NodeProjection) {
     this.processedNodes = new Set();
     this.config = config;
-    this.currentSize = 0;
-  }
-
-  private estimateNodeSize(node: SceneNode): number {
-    return Buffer.byteLength(JSON.stringify(node)) / 1024 / 1024; // Size in MB
+    this.context = context;
+    this.usedTokens = 0;
+    this.project = project ?? ((node) => summarizeNode(node, resolveSummaryLevel(this.config), this.context));
   }
 
   private filterNodeProperties(node: SceneNode): SceneNode {
@@ -38,131 +150,43 @@ class StreamingNodeProcessor {
     return filteredNode;
   }
 
-  private summarizeNode(node: SceneNode): SceneNode {
-    // Create a type-safe base object
-    const base: Pick<SceneNode, 'id' | 'name' | 'visible'> & { type: SceneNode['type'] } = {
-      id: node.id,
-      name: node.name || '',
-      visible: node.visible ?? true,
-      type: node.type,
-    };
-
-    // Add type-specific required properties
-    switch (node.type as SceneNode['type']) {
-      case 'FRAME':
-        return {
-          ...base,
-          type: 'FRAME' as const,
-          children: 'children' in node ? node.children : [],
-          background: [],
-        };
-      case 'GROUP':
-        return {
-          ...base,
-          type: 'GROUP' as const,
-          children: 'children' in node ? node.children : [],
-        };
-      case 'VECTOR':
-        return {
-          ...base,
-          type: 'VECTOR' as const,
-        };
-      case 'BOOLEAN_OPERATION':
-        return {
-          ...base,
-          type: 'BOOLEAN_OPERATION' as const,
-          children: 'children' in node ? node.children : [],
-          booleanOperation: 'UNION',
-        };
-      case 'STAR':
-        return {
-          ...base,
-          type: 'STAR' as const,
-          pointCount: 5,
-          innerRadius: 0.5,
-        };
-      case 'LINE':
-        return {
-          ...base,
-          type: 'LINE' as const,
-        };
-      case 'TEXT':
-        return {
-          ...base,
-          type: 'TEXT' as const,
-          characters: 'characters' in node ? node.characters : '',
-          style: {
-            fontFamily: 'Inter',
-            fontWeight: 400,
-            fontSize: 16,
-            textAlignHorizontal: 'LEFT',
-            letterSpacing: 0,
-            lineHeightUnit: 'PIXELS',
-          },
-        };
-      case 'COMPONENT':
-        return {
-          ...base,
-          type: 'COMPONENT' as const,
-          children: 'children' in node ? node.children : [],
-          componentId: 'componentId' in node ? node.componentId : '',
-        };
-      case 'INSTANCE':
-        return {
-          ...base,
-          type: 'INSTANCE' as const,
-          children: 'children' in node ? node.children : [],
-          componentId: 'componentId' in node ? node.componentId : '',
-        };
-      case 'CANVAS':
-        return {
-          ...base,
-          type: 'CANVAS' as const,
-          children: 'children' in node ? node.children : [],
-          backgroundColor: { r: 1, g: 1, b: 1, a: 1 }
-        };
-      default:
-        // Instead of throwing error, return base node with minimal properties
-        return {
-          ...base,
-          children: 'children' in node ? node.children : []
-        } as SceneNode;
-    }
-  }
-
   shouldProcessNode(node: SceneNode, depth: number): boolean {
     if (this.processedNodes.has(node.id)) return false;
     if (this.config.nodeTypes && !this.config.nodeTypes.includes(node.type)) return false;
     if (this.config.maxDepth !== undefined && depth > this.config.maxDepth) return false;
-    
-    const nodeSize = this.estimateNodeSize(node);
-    if (this.currentSize + nodeSize > (this.config.maxResponseSize || this.config.maxMemoryMB)) {
-      return false;
-    }
-
     return true;
   }
 
-  processNode(node: SceneNode, depth: number): SceneNode | null {
+  /**
+   * Projects a node for output without counting it against the budget;
+   * call accept() once the node is actually added to the response.
+   */
+  processNode(node: SceneNode, depth: number, ancestors: SceneNode[] = []): ProcessedNode | null {
     if (!this.shouldProcessNode(node, depth)) return null;
 
-    this.processedNodes.add(node.id);
-    let processedNode = this.filterNodeProperties(node);
-    
-    if (this.config.summarizeNodes) {
-      processedNode = this.summarizeNode(processedNode);
-    }
+    const processedNode = withChildIds(this.project(this.filterNodeProperties(node), ancestors));
+    return { node: processedNode, tokens: estimateTokens(processedNode) };
+  }
 
-    this.currentSize += this.estimateNodeSize(processedNode);
-    return processedNode;
+  /**
+   * A node that alone exceeds the budget is still accepted into an empty
+   * response, so pagination always makes progress.
+   */
+  fitsBudget(processed: ProcessedNode): boolean {
+    return this.usedTokens === 0 || this.usedTokens + processed.tokens <= this.config.maxTokens;
+  }
+
+  accept(processed: ProcessedNode) {
+    this.processedNodes.add(processed.node.id);
+    this.usedTokens += processed.tokens;
   }
 
   hasReachedLimit(): boolean {
-    return this.currentSize >= (this.config.maxResponseSize || this.config.maxMemoryMB);
+    return this.usedTokens >= this.config.maxTokens;
   }
 
-  getCurrentSize(): number {
-    return this.currentSize;
+  getUsedTokens(): number {
+    return this.usedTokens;
   }
 
   getProcessedCount(): number {
@@ -170,224 +194,1265 @@ class StreamingNodeProcessor {
   }
 }
 
+/**
+ * A node as returned by GET /files/{key}/nodes, or null for unknown ids.
+ */
+interface FileNodeEntry {
+  document: SceneNode;
+  components?: SummaryContext['components'];
+}
+
+interface TraversalFrame {
+  children: SceneNode[];
+  index: number;
+}
+
 interface ChunkResult {
-  nodes: SceneNode[];
-  memoryUsage: number;
+  nodes: Array<SceneNode | NodeSummary>;
+  sourceNodes: SceneNode[]; // the unprocessed nodes, for resolving image fills and variables
+  traversed: TraversedNode[]; // the unprocessed nodes with their depth and collapsed instance count
+  tokensUsed: number;
+  maxTokens: number;
+  remainingNodes: number;
+  missingNodeIds?: string[]; // requested root nodes that do not exist in the file
+  nextCursor?: string;
+  hasMore: boolean;
+}
+
+/**
+ * State owned by a single tool invocation. Each call gets its own node
+ * processor and budget so concurrent calls cannot affect one another.
+ */
+interface ProcessingSession {
+  config: ChunkConfig;
+  nodeProcessor: StreamingNodeProcessor;
+  match?: NodeMatcher;
+}
+
+export interface FileMetadata {
+  name: string;
+  version: string;
+  lastModified: string;
+}
+
+export interface FileDiff {
+  fileKey: string;
+  fromVersion: string;
+  toVersion: string;
+  totalChanges: number;
+  changes: ChangeGroup[] | NodeChange[];
   nextCursor?: string;
   hasMore: boolean;
 }
 
+// Computed diffs are kept so later pages do not download both versions again
+const MAX_CACHED_DIFFS = 5;
+
 export class ChunkedFigmaClient {
-  private client: AxiosInstance;
+  private http: FigmaHttpClient;
   private config: ChunkConfig;
-  private nodeProcessor: StreamingNodeProcessor;
+  private cache: FileCache;
+  private auth: FigmaAuth;
+  // Files this client's credentials were seen to have access to. The cache is
+  // shared between identities, so other snapshots are rechecked before use.
+  private verifiedFiles: Set<string>;
+  private diffs: Map<string, NodeChange[]>;
 
-  constructor(accessToken: string, config: Partial<ChunkConfig> = {}) {
-    this.client = axios.create({
-      baseURL: 'https://api.figma.com/v1',
-      headers: {
-        'X-Figma-Token': accessToken,
-      },
-    });
+  constructor(
+    auth: FigmaAuth,
+    cache: FileCache,
+    config: Partial<ChunkConfig> = {},
+    httpConfig: Partial<HttpConfig> = {}
+  ) {
+    this.cache = cache;
+    this.auth = auth;
+    this.verifiedFiles = new Set();
+    this.diffs = new Map();
+    this.http = new FigmaHttpClient(
+      axios.create({
+        baseURL: 'https://api.figma.com/v1',
+      }),
+      httpConfig,
+      auth
+    );
 
     this.config = {
       pageSize: config.pageSize || 100,
-      maxMemoryMB: config.maxMemoryMB || 512,
       nodeTypes: config.nodeTypes,
       maxDepth: config.maxDepth,
       excludeProps: config.excludeProps,
-      maxResponseSize: config.maxResponseSize || 50, // Default 50MB response size
+      maxTokens: config.maxTokens || 20000, // Roughly 80 KB of JSON
       summarizeNodes: config.summarizeNodes,
     };
+  }
 
-    this.nodeProcessor = new StreamingNodeProcessor(this.config);
+  private createSession(
+    overrides: Partial<ChunkConfig> = {},
+    context: SummaryContext = {},
+    project?: NodeProjection,
+    match?: NodeMatcher
+  ): ProcessingSession {
+    const config = { ...this.config };
+    for (const [key, value] of Object.entries(overrides)) {
+      if (value !== undefined) {
+        (config as any)[key] = value;
+      }
+    }
+    return { config, nodeProcessor: new StreamingNodeProcessor(config, context, project), match };
   }
 
-  private async streamNodes(
+  private streamNodes(
+    session: ProcessingSession,
     document: DocumentNode,
+    cursorState: Omit<CursorState, 'stack'>,
     cursor?: string
-  ): Promise<ChunkResult> {
-    const result: SceneNode[] = [];
-    const queue: Array<{ node: SceneNode; depth: number }> = document.children.map(node => ({ node, depth: 0 }));
-    let currentIndex = cursor ? parseInt(cursor, 10) : 0;
-
-    // Skip to cursor position
-    while (currentIndex > 0 && queue.length > 0) {
-      queue.shift();
-      currentIndex--;
-    }
+  ): ChunkResult {
+    const result: Array<SceneNode | NodeSummary> = [];
+    const sourceNodes: SceneNode[] = [];
+    const traversed: TraversedNode[] = [];
+    const stack = cursor
+      ? this.restoreTraversal(document, verifyCursor(cursor, cursorState).stack)
+      : [{ children: document.children, index: 0 }];
+
+    const { config, nodeProcessor, match } = session;
+    while (stack.length > 0 && result.length < config.pageSize) {
+      const frame = stack[stack.length - 1];
+      if (frame.index >= frame.children.length) {
+        stack.pop();
+        continue;
+      }
+
+      const node = frame.children[frame.index];
+      // Pages are at depth 1, matching the depth parameter of the Figma API
+      const depth = stack.length;
+
+      const ancestors = this.ancestorsOf(stack);
+      const processed = !match || match(node, ancestors) ? nodeProcessor.processNode(node, depth, ancestors) : null;
+      if (processed && !nodeProcessor.fitsBudget(processed)) {
+        // Leave the node unvisited so the next page starts with it
+        break;
+      }
+      frame.index++;
 
-    while (queue.length > 0 && result.length < this.config.pageSize) {
-      const { node, depth } = queue.shift()!;
-      
-      const processedNode = this.nodeProcessor.processNode(node, depth);
-      if (processedNode) {
-        result.push(processedNode as SceneNode);
+      let count = 1;
+      if (config.collapseInstances && node.type === 'INSTANCE') {
+        while (this.isRepeatedInstance(node, frame.children[frame.index])) {
+          frame.index++;
+          count++;
+        }
       }
 
-      if ('children' in node) {
-        queue.unshift(...node.children.map(child => ({ 
-          node: child, 
-          depth: depth + 1 
-        })));
+      if (processed) {
+        nodeProcessor.accept(processed);
+        result.push(processed.node);
+        sourceNodes.push(node);
+        traversed.push({ node, depth, count });
       }
 
-      if (this.nodeProcessor.hasReachedLimit()) {
+      // The descendants of collapsed instances repeat once per instance
+      if (count === 1 && this.canDescend(config, depth) && 'children' in node && node.children.length > 0) {
+        stack.push({ children: node.children, index: 0 });
+      }
+
+      if (nodeProcessor.hasReachedLimit()) {
         break;
       }
     }
 
+    // Drop exhausted levels so the cursor points at the next unvisited node
+    while (stack.length > 0 && stack[stack.length - 1].index >= stack[stack.length - 1].children.length) {
+      stack.pop();
+    }
+
+    const hasMore = stack.length > 0;
     return {
       nodes: result,
-      memoryUsage: this.nodeProcessor.getCurrentSize(),
-      nextCursor: queue.length > 0 ? this.nodeProcessor.getProcessedCount().toString() : undefined,
-      hasMore: queue.length > 0
+      sourceNodes,
+      traversed,
+      tokensUsed: nodeProcessor.getUsedTokens(),
+      maxTokens: config.maxTokens,
+      remainingNodes: this.countRemaining(config, stack),
+      nextCursor: hasMore
+        ? encodeCursor({ ...cursorState, stack: stack.map(frame => frame.index) })
+        : undefined,
+      hasMore
     };
   }
 
+  /**
+   * The nodes the top of the stack descends from, from the page down. Each
+   * lower level has already stepped past the node it descended into.
+   */
+  private ancestorsOf(stack: TraversalFrame[]): SceneNode[] {
+    return stack.slice(0, -1).map((frame) => frame.children[frame.index - 1]);
+  }
+
+  private isRepeatedInstance(instance: SceneNode, sibling: SceneNode | undefined): boolean {
+    return (
+      sibling !== undefined &&
+      sibling.type === 'INSTANCE' &&
+      instance.type === 'INSTANCE' &&
+      sibling.componentId === instance.componentId
+    );
+  }
+
+  private canDescend(config: ChunkConfig, depth: number): boolean {
+    return config.maxDepth === undefined || depth < config.maxDepth;
+  }
+
+  /**
+   * Counts the nodes that later pages will still return: the unvisited
+   * siblings on every level of the stack and their descendants.
+   */
+  private countRemaining(config: ChunkConfig, stack: TraversalFrame[]): number {
+    let count = 0;
+    const pending: Array<{ node: SceneNode; depth: number }> = [];
+    stack.forEach((frame, level) => {
+      for (const node of frame.children.slice(frame.index)) {
+        pending.push({ node, depth: level + 1 });
+      }
+    });
+
+    while (pending.length > 0) {
+      const { node, depth } = pending.pop()!;
+      if (!config.nodeTypes || config.nodeTypes.includes(node.type)) {
+        count++;
+      }
+      if (this.canDescend(config, depth) && 'children' in node && Array.isArray(node.children)) {
+        for (const child of node.children) {
+          pending.push({ node: child, depth: depth + 1 });
+        }
+      }
+    }
+    return count;
+  }
+
+  private restoreTraversal(document: DocumentNode, indexes: number[]): TraversalFrame[] {
+    const stack: TraversalFrame[] = [];
+    let children: SceneNode[] = document.children;
+
+    indexes.forEach((index, level) => {
+      const isLast = level === indexes.length - 1;
+      // Ancestor levels have already visited the node being descended into
+      if (index > children.length || (isLast && index === children.length) || (!isLast && index === 0)) {
+        throw new InvalidCursorError('Cursor does not match the structure of this file');
+      }
+      stack.push({ children, index });
+      if (!isLast) {
+        const parent = children[index - 1];
+        if (!('children' in parent)) {
+          throw new InvalidCursorError('Cursor does not match the structure of this file');
+        }
+        children = parent.children;
+      }
+    });
+
+    return stack;
+  }
+
+  /**
+   * Checks that a cache entry still matches the current file version. An
+   * entry past its TTL, or not yet fetched with this client's credentials, is
+   * revalidated with a cheap depth=1 request.
+   */
+  private async isCurrent(
+    fileKey: string,
+    entry: { version: string; validatedAt: number },
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    if (this.cache.isFresh(entry) && this.verifiedFiles.has(fileKey)) return true;
+
+    const data = await this.http.get(`/files/${fileKey}`, {
+      params: { depth: 1 },
+      signal,
+    });
+    this.verifiedFiles.add(fileKey);
+    if (String(data?.version) === entry.version) {
+      this.cache.markValidated(entry);
+      return true;
+    }
+
+    console.debug('[MCP Debug] Cached file is outdated:', fileKey, {
+      cachedVersion: entry.version,
+      currentVersion: data?.version,
+    });
+    return false;
+  }
+
+  /**
+   * Returns the cached snapshot of a file if it is still current.
+   */
+  private async getCachedFile(fileKey: string, signal?: AbortSignal): Promise<CachedFile | undefined> {
+    const entry = await this.cache.get(fileKey);
+    return entry && (await this.isCurrent(fileKey, entry, signal)) ? entry : undefined;
+  }
+
+  private async loadFile(fileKey: string, signal?: AbortSignal): Promise<CachedFile> {
+    const cached = await this.getCachedFile(fileKey, signal);
+    if (cached) {
+      console.debug('[MCP Debug] Serving file from cache:', fileKey, 'version:', cached.version);
+      return cached;
+    }
+
+    console.debug('[MCP Debug] Downloading file:', fileKey);
+    const data = await this.http.get(`/files/${fileKey}`, { signal });
+    if (!data || !data.document) {
+      throw new FigmaApiError('Invalid response from Figma API');
+    }
+    this.verifiedFiles.add(fileKey);
+
+    return this.cache.set({
+      fileKey,
+      name: data.name,
+      version: String(data.version),
+      lastModified: data.lastModified,
+      document: data.document,
+      components: data.components || {},
+      styles: data.styles || {},
+    });
+  }
+
+  /**
+   * Name and version of a file, from the cached snapshot when it is current.
+   */
+  async getFileMetadata(fileKey: string, signal?: AbortSignal): Promise<FileMetadata> {
+    const { name, version, lastModified } = await this.loadFile(fileKey, signal);
+    return { name, version, lastModified };
+  }
+
+  /**
+   * The current version of a file, always fetched from Figma with a cheap
+   * depth=1 request.
+   */
+  async getFileVersion(fileKey: string, signal?: AbortSignal): Promise<FileMetadata> {
+    const data = await this.http.get(`/files/${fileKey}`, { params: { depth: 1 }, signal });
+    this.verifiedFiles.add(fileKey);
+    return { name: data.name, version: String(data.version), lastModified: data.lastModified };
+  }
+
+  /**
+   * Clears the snapshots of one file, or of every file this client has
+   * fetched or checked. The cache is shared between identities, so other
+   * snapshots are left alone and only this client's files are reported.
+   */
+  async clearCache(fileKey?: string, signal?: AbortSignal) {
+    if (fileKey && !this.verifiedFiles.has(fileKey)) {
+      // Fails when these credentials cannot access the file
+      await this.getFileVersion(fileKey, signal);
+    }
+    let cleared = 0;
+    for (const key of fileKey ? [fileKey] : [...this.verifiedFiles]) {
+      cleared += await this.cache.clear(key);
+    }
+    console.debug('[MCP Debug] Cleared cached files:', cleared);
+    return { cleared, files: this.getCachedFiles() };
+  }
+
+  /**
+   * Files with a snapshot in the cache that this client has fetched or
+   * checked, most recently used last. Snapshots fetched by other identities
+   * are left out.
+   */
+  getCachedFiles() {
+    return this.cache.stats().files.filter((file) => this.verifiedFiles.has(file.fileKey));
+  }
+
   async getFileInfoChunked(
     fileKey: string,
     cursor?: string,
     depth?: number,
-    config?: Partial<ChunkConfig>
+    config?: Partial<ChunkConfig>,
+    rootNodeIds?: string[],
+    signal?: AbortSignal
   ): Promise<ChunkResult> {
-    // Update config with new options
-    if (config) {
-      this.config = {
-        ...this.config,
-        ...config
-      };
-      // Recreate node processor with new config
-      this.nodeProcessor = new StreamingNodeProcessor(this.config);
+    const file = rootNodeIds?.length
+      ? await this.loadSubtrees(fileKey, rootNodeIds, signal)
+      : await this.loadFile(fileKey, signal);
+    const session = this.createSession(
+      { ...config, maxDepth: depth || config?.maxDepth },
+      { components: file.components }
+    );
+
+    const cursorState = {
+      fileKey,
+      fileVersion: file.version,
+      filterHash: hashFilterOptions({
+        nodeTypes: session.config.nodeTypes,
+        excludeProps: session.config.excludeProps,
+        maxDepth: session.config.maxDepth,
+        summaryLevel: resolveSummaryLevel(session.config),
+        rootNodeIds,
+      }),
+    };
+
+    const result = this.streamNodes(session, file.document, cursorState, cursor);
+    return 'missingNodeIds' in file && file.missingNodeIds.length > 0
+      ? { ...result, missingNodeIds: file.missingNodeIds }
+      : result;
+  }
+
+  /**
+   * Loads the given nodes as the pages of a synthetic document, so their
+   * subtrees can be streamed like a whole file. The roots are at depth 1.
+   * Unknown or deleted ids are skipped and listed in missingNodeIds.
+   */
+  private async loadSubtrees(fileKey: string, ids: string[], signal?: AbortSignal) {
+    const data = await this.getFileNodes(fileKey, ids, signal);
+    const found = ids.filter((id) => data.nodes[id]?.document);
+    if (found.length === 0) {
+      throw new FigmaNotFoundError(`Nodes not found in file ${fileKey}: ${ids.join(', ')}`);
     }
-    try {
-      const response = await this.client.get(`/files/${fileKey}`, {
-        params: { depth: depth || this.config.maxDepth },
-      });
 
-      if (!response.data || !response.data.document) {
-        throw new Error('Invalid response from Figma API');
-      }
+    const components: SummaryContext['components'] = {};
+    for (const id of found) {
+      Object.assign(components, data.nodes[id]!.components);
+    }
+    const document: DocumentNode = {
+      id: fileKey,
+      name: fileKey,
+      type: 'DOCUMENT',
+      children: found.map((id) => data.nodes[id]!.document),
+    };
+    const missingNodeIds = ids.filter((id) => !data.nodes[id]?.document);
+    return { version: data.version, document, components, missingNodeIds };
+  }
+
+  /**
+   * Returns a page of the file's node tree as a compact outline. Pages are
+   * selected by id or name, and consecutive instances of one component are
+   * collapsed into a single entry.
+   */
+  async getFileOutline(
+    fileKey: string,
+    options: {
+      pages?: string[];
+      depth?: number;
+      format?: OutlineFormat;
+      collapseInstances?: boolean;
+      cursor?: string;
+      pageSize?: number;
+      maxTokens?: number;
+    } = {},
+    signal?: AbortSignal
+  ): Promise<{
+    outline: string | OutlineEntry[];
+    remainingNodes: number;
+    nextCursor?: string;
+    hasMore: boolean;
+  }> {
+    const file = await this.loadFile(fileKey, signal);
 
-      return this.streamNodes(response.data.document, cursor);
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        throw new Error(`Figma API error: ${error.response?.data?.message || error.message}`);
+    let document = file.document;
+    if (options.pages?.length) {
+      const pages = document.children.filter(
+        (page) => options.pages!.includes(page.id) || options.pages!.includes(page.name)
+      );
+      if (pages.length === 0) {
+        throw new FigmaNotFoundError(`No pages named or with id ${options.pages.join(', ')} in file ${fileKey}`);
       }
-      throw error;
+      document = { ...document, children: pages };
     }
+
+    const session = this.createSession(
+      {
+        pageSize: options.pageSize ?? 1000, // Entries are a line each, so pages can be larger
+        maxTokens: options.maxTokens,
+        maxDepth: options.depth ?? 2,
+        collapseInstances: options.collapseInstances ?? true,
+      },
+      {},
+      outlineEntry
+    );
+
+    const cursorState = {
+      fileKey,
+      fileVersion: file.version,
+      filterHash: hashFilterOptions({
+        maxDepth: session.config.maxDepth,
+        summaryLevel: 'outline',
+        pageIds: document.children.map((page) => page.id),
+        collapseInstances: session.config.collapseInstances,
+      }),
+    };
+
+    const result = this.streamNodes(session, document, cursorState, options.cursor);
+    return {
+      outline: options.format === 'json' ? buildOutlineTree(result.traversed) : formatOutlineText(result.traversed),
+      remainingNodes: result.remainingNodes,
+      nextCursor: result.nextCursor,
+      hasMore: result.hasMore,
+    };
   }
 
-  async listFiles(params: { project_id?: string; team_id?: string }) {
-    try {
-      console.debug('[MCP Debug] Listing files with params:', params);
-      const response = await this.client.get('/files', { params });
-      return response.data;
-    } catch (error) {
-      console.error('[MCP Error] Failed to list files:', error);
-      throw error;
+  /**
+   * Finds nodes matching a query, with the path of ancestors to each match.
+   * Pages through the traversal like getFileInfoChunked; a page may scan
+   * many nodes to find pageSize matches.
+   */
+  async searchNodes(
+    fileKey: string,
+    query: NodeQuery,
+    options: { cursor?: string; depth?: number; pageSize?: number; maxTokens?: number } = {},
+    signal?: AbortSignal
+  ): Promise<{ matches: SearchMatch[]; nextCursor?: string; hasMore: boolean }> {
+    const match = compileQuery(query);
+    const file = await this.loadFile(fileKey, signal);
+    const session = this.createSession(
+      { pageSize: options.pageSize, maxTokens: options.maxTokens, maxDepth: options.depth },
+      {},
+      toSearchMatch,
+      match
+    );
+
+    const cursorState = {
+      fileKey,
+      fileVersion: file.version,
+      filterHash: hashFilterOptions({
+        maxDepth: session.config.maxDepth,
+        summaryLevel: 'search',
+        query,
+      }),
+    };
+
+    const result = this.streamNodes(session, file.document, cursorState, options.cursor);
+    return {
+      matches: result.nodes as SearchMatch[],
+      nextCursor: result.nextCursor,
+      hasMore: result.hasMore,
+    };
+  }
+
+  private async loadVersion(fileKey: string, version: string, signal?: AbortSignal): Promise<DocumentNode> {
+    console.debug('[MCP Debug] Downloading file version:', fileKey, version);
+    const data = await this.http.get(`/files/${fileKey}`, { params: { version }, signal });
+    if (!data || !data.document) {
+      throw new FigmaApiError('Invalid response from Figma API');
     }
+    return data.document;
   }
 
-  async getComponents(fileKey: string) {
-    try {
-      console.debug('[MCP Debug] Getting components for file:', fileKey);
-      const response = await this.client.get(`/files/${fileKey}/components`);
-      
-      if (this.nodeProcessor.hasReachedLimit()) {
-        console.debug('[MCP Debug] Memory limit reached while processing components');
-        throw new Error('Memory limit exceeded while processing components');
+  /**
+   * Compares two versions of a file, or a version with the current file,
+   * and returns one page of node changes.
+   */
+  async diffFileVersions(
+    fileKey: string,
+    fromVersion: string,
+    toVersion?: string,
+    options: { cursor?: string; groupBy?: DiffGrouping; pageSize?: number; maxTokens?: number } = {},
+    signal?: AbortSignal
+  ): Promise<FileDiff> {
+    let target: DocumentNode | undefined;
+    if (!toVersion) {
+      const file = await this.loadFile(fileKey, signal);
+      toVersion = file.version;
+      target = file.document;
+    }
+
+    const key = `${fileKey}:${fromVersion}:${toVersion}`;
+    let changes = this.diffs.get(key);
+    if (!changes) {
+      const [from, to] = await Promise.all([
+        this.loadVersion(fileKey, fromVersion, signal),
+        target ?? this.loadVersion(fileKey, toVersion, signal),
+      ]);
+      changes = diffDocuments(from, to);
+      this.diffs.set(key, changes);
+      if (this.diffs.size > MAX_CACHED_DIFFS) {
+        this.diffs.delete(this.diffs.keys().next().value as string);
       }
+    }
+
+    const { items, nextCursor, hasMore } = this.paginate(
+      changes,
+      {
+        fileKey,
+        fileVersion: `${fromVersion}..${toVersion}`,
+        filterHash: hashFilterOptions({ summaryLevel: 'diff' }),
+      },
+      options,
+      this.config.pageSize
+    );
+    return {
+      fileKey,
+      fromVersion,
+      toVersion,
+      totalChanges: changes.length,
+      changes: groupChanges(items, options.groupBy ?? 'page'),
+      nextCursor,
+      hasMore,
+    };
+  }
+
+  /**
+   * One page of an in-memory list, for lists the Figma API returns whole.
+   * The cursor stores the offset of the next page.
+   */
+  private paginate<T>(
+    items: T[],
+    cursorState: Omit<CursorState, 'stack'>,
+    options: { cursor?: string; pageSize?: number; maxTokens?: number },
+    defaultPageSize: number
+  ): { items: T[]; nextCursor?: string; hasMore: boolean } {
+    const start = options.cursor ? verifyCursor(options.cursor, cursorState).stack[0] : 0;
+    const end = pageEnd(
+      items,
+      start,
+      options.pageSize || defaultPageSize,
+      options.maxTokens || this.config.maxTokens
+    );
+    const hasMore = end < items.length;
+    return {
+      items: items.slice(start, end),
+      nextCursor: hasMore ? encodeCursor({ ...cursorState, stack: [end] }) : undefined,
+      hasMore,
+    };
+  }
+
+  /**
+   * The account behind the current credentials, from GET /v1/me.
+   */
+  async whoami(signal?: AbortSignal): Promise<{ user: any; auth: AuthInfo }> {
+    console.debug('[MCP Debug] Getting current user');
+    const user = await this.http.get('/me', { signal });
+    return { user, auth: this.auth.describe() };
+  }
+
+  /**
+   * Projects of a team the current user can see. Team ids appear in team
+   * URLs, e.g. figma.com/files/team/{team_id}.
+   */
+  async listTeamProjects(
+    teamId: string,
+    options: { cursor?: string; pageSize?: number } = {},
+    signal?: AbortSignal
+  ): Promise<{
+    team: string;
+    projects: FigmaProject[];
+    totalProjects: number;
+    nextCursor?: string;
+    hasMore: boolean;
+  }> {
+    console.debug('[MCP Debug] Listing projects of team:', teamId);
+    const { name, projects } = await this.fetchTeamProjects(teamId, signal);
+    const { items, nextCursor, hasMore } = this.paginate(
+      projects,
+      {
+        fileKey: `team:${teamId}`,
+        fileVersion: 'projects',
+        filterHash: hashFilterOptions({ summaryLevel: 'projects' }),
+      },
+      options,
+      100
+    );
+    return { team: name, projects: items, totalProjects: projects.length, nextCursor, hasMore };
+  }
+
+  /**
+   * Files of a project, most recently modified first, optionally with their
+   * branches.
+   */
+  async listProjectFiles(
+    projectId: string,
+    options: { branchData?: boolean; cursor?: string; pageSize?: number } = {},
+    signal?: AbortSignal
+  ): Promise<{
+    project: string;
+    files: FigmaFile[];
+    totalFiles: number;
+    nextCursor?: string;
+    hasMore: boolean;
+  }> {
+    console.debug('[MCP Debug] Listing files of project:', projectId);
+    const { name, files } = await this.fetchProjectFiles(projectId, options.branchData ?? false, signal);
+    const { items, nextCursor, hasMore } = this.paginate(
+      files,
+      {
+        fileKey: `project:${projectId}`,
+        fileVersion: 'files',
+        filterHash: hashFilterOptions({ summaryLevel: 'files', query: { branchData: options.branchData ?? false } }),
+      },
+      options,
+      100
+    );
+    return { project: name, files: items, totalFiles: files.length, nextCursor, hasMore };
+  }
+
+  /**
+   * Files of any project in the team whose name contains the query,
+   * case-insensitively. Exact and prefix matches come first, then the most
+   * recently modified.
+   */
+  async findFiles(
+    teamId: string,
+    query: string,
+    options: { cursor?: string; pageSize?: number } = {},
+    signal?: AbortSignal
+  ): Promise<{
+    files: Array<FigmaFile & { project: FigmaProject }>;
+    totalMatches: number;
+    nextCursor?: string;
+    hasMore: boolean;
+  }> {
+    console.debug('[MCP Debug] Finding files in team:', teamId, 'query:', query);
+    const { projects } = await this.fetchTeamProjects(teamId, signal);
+    const listings = await Promise.all(
+      projects.map((project) => this.fetchProjectFiles(project.id, false, signal))
+    );
+
+    const needle = query.trim().toLowerCase();
+    const rank = (name: string) => {
+      const lower = name.toLowerCase();
+      return lower === needle ? 0 : lower.startsWith(needle) ? 1 : 2;
+    };
+    const matches = listings
+      .flatMap((listing, i) => listing.files.map((file) => ({ ...file, project: projects[i] })))
+      .filter((file) => file.name.toLowerCase().includes(needle))
+      .sort((a, b) => rank(a.name) - rank(b.name) || b.lastModified.localeCompare(a.lastModified));
+
+    const { items, nextCursor, hasMore } = this.paginate(
+      matches,
+      {
+        fileKey: `team:${teamId}`,
+        fileVersion: 'files',
+        filterHash: hashFilterOptions({ summaryLevel: 'files', query: { query: needle } }),
+      },
+      options,
+      50
+    );
+    return { files: items, totalMatches: matches.length, nextCursor, hasMore };
+  }
+
+  private async fetchTeamProjects(
+    teamId: string,
+    signal?: AbortSignal
+  ): Promise<{ name: string; projects: FigmaProject[] }> {
+    const data = await this.http.get(`/teams/${teamId}/projects`, { signal });
+    return {
+      name: data?.name,
+      projects: (data?.projects ?? []).map((project: any) => ({ id: String(project.id), name: project.name })),
+    };
+  }
+
+  private async fetchProjectFiles(
+    projectId: string,
+    branchData: boolean,
+    signal?: AbortSignal
+  ): Promise<{ name: string; files: FigmaFile[] }> {
+    const data = await this.http.get(`/projects/${projectId}/files`, {
+      params: branchData ? { branch_data: true } : undefined,
+      signal,
+    });
+    const files: FigmaFile[] = (data?.files ?? []).map(toFigmaFile);
+    return {
+      name: data?.name,
+      files: files.sort((a, b) => b.lastModified.localeCompare(a.lastModified)),
+    };
+  }
+
+  /**
+   * Published components of a file as Figma returns them, with the fields
+   * of the team library components added to each.
+   */
+  async getComponents(fileKey: string, signal?: AbortSignal) {
+    console.debug('[MCP Debug] Getting components for file:', fileKey);
+    const data = await this.http.get(`/files/${fileKey}/components`, { signal });
+    if (!Array.isArray(data?.meta?.components)) return data;
+    return {
+      ...data,
+      meta: {
+        ...data.meta,
+        components: data.meta.components.map((component: any) => ({ ...toComponent(component), ...component })),
+      },
+    };
+  }
+
+  /**
+   * Published components of a team library. With groupBySet, the variants
+   * on this page are grouped by component set; a set may continue on the
+   * next page.
+   */
+  async getTeamComponents(
+    teamId: string,
+    options: { cursor?: string; pageSize?: number; groupBySet?: boolean } = {},
+    signal?: AbortSignal
+  ): Promise<{
+    components: FigmaComponent[];
+    componentSets?: ComponentSetGroup[];
+    nextCursor?: string;
+    hasMore: boolean;
+  }> {
+    console.debug('[MCP Debug] Getting components for team:', teamId);
+    const page = await this.getLibraryPage(teamId, 'components', options, signal);
+    const components = page.items.map(toComponent);
+    return {
+      ...(options.groupBySet ? groupByComponentSet(components) : { components }),
+      nextCursor: page.nextCursor,
+      hasMore: page.hasMore,
+    };
+  }
+
+  async getTeamComponentSets(
+    teamId: string,
+    options: { cursor?: string; pageSize?: number } = {},
+    signal?: AbortSignal
+  ): Promise<{ componentSets: FigmaComponentSet[]; nextCursor?: string; hasMore: boolean }> {
+    console.debug('[MCP Debug] Getting component sets for team:', teamId);
+    const page = await this.getLibraryPage(teamId, 'component_sets', options, signal);
+    return { componentSets: page.items.map(toComponentSet), nextCursor: page.nextCursor, hasMore: page.hasMore };
+  }
 
-      return response.data;
-    } catch (error) {
-      console.error('[MCP Error] Failed to get components:', error);
-      throw error;
+  async getTeamStyles(
+    teamId: string,
+    options: { cursor?: string; pageSize?: number } = {},
+    signal?: AbortSignal
+  ): Promise<{ styles: FigmaPublishedStyle[]; nextCursor?: string; hasMore: boolean }> {
+    console.debug('[MCP Debug] Getting styles for team:', teamId);
+    const page = await this.getLibraryPage(teamId, 'styles', options, signal);
+    return { styles: page.items, nextCursor: page.nextCursor, hasMore: page.hasMore };
+  }
+
+  /**
+   * A published component by its key, from any library the user can access.
+   */
+  async getComponent(key: string, signal?: AbortSignal): Promise<FigmaComponent> {
+    console.debug('[MCP Debug] Getting component:', key);
+    const data = await this.http.get(`/components/${key}`, { signal });
+    if (!data?.meta) {
+      throw new FigmaApiError('Invalid response from Figma API');
     }
+    return toComponent(data.meta);
+  }
+
+  /**
+   * One page of a team library endpoint. Figma pages these with a numeric
+   * `after` position, which the cursor carries.
+   */
+  private async getLibraryPage(
+    teamId: string,
+    kind: 'components' | 'component_sets' | 'styles',
+    options: { cursor?: string; pageSize?: number },
+    signal?: AbortSignal
+  ): Promise<{ items: any[]; nextCursor?: string; hasMore: boolean }> {
+    const cursorState = {
+      fileKey: `team:${teamId}/${kind}`,
+      fileVersion: 'library',
+      filterHash: hashFilterOptions({ summaryLevel: 'library' }),
+    };
+    const after = options.cursor ? verifyCursor(options.cursor, cursorState).stack[0] : undefined;
+    const pageSize = options.pageSize || 100;
+    const data = await this.http.get(`/teams/${teamId}/${kind}`, {
+      params: { page_size: pageSize, after },
+      signal,
+    });
+
+    const items: any[] = data?.meta?.[kind] ?? [];
+    const next = data?.meta?.cursor?.after;
+    // Figma returns an `after` position even on the last page
+    const hasMore = items.length >= pageSize && Number.isInteger(next);
+    return {
+      items,
+      nextCursor: hasMore ? encodeCursor({ ...cursorState, stack: [next] }) : undefined,
+      hasMore,
+    };
+  }
+
+  async getStyles(fileKey: string, signal?: AbortSignal) {
+    console.debug('[MCP Debug] Getting styles for file:', fileKey);
+    return this.http.get(`/files/${fileKey}/styles`, { signal });
+  }
+
+  async getFileVersions(fileKey: string, signal?: AbortSignal) {
+    console.debug('[MCP Debug] Getting versions for file:', fileKey);
+    return this.http.get(`/files/${fileKey}/versions`, { signal });
   }
 
-  async getStyles(fileKey: string) {
-    try {
-      console.debug('[MCP Debug] Getting styles for file:', fileKey);
-      const response = await this.client.get(`/files/${fileKey}/styles`);
-      
-      if (this.nodeProcessor.hasReachedLimit()) {
-        console.debug('[MCP Debug] Memory limit reached while processing styles');
-        throw new Error('Memory limit exceeded while processing styles');
+  /**
+   * Comments grouped into threads, oldest first, with the node each thread
+   * is pinned to. The list is fetched again for every page, so cursors hold
+   * the creation time of the last returned thread rather than an offset:
+   * threads resolved or deleted in the meantime do not shift later pages.
+   */
+  async getFileComments(
+    fileKey: string,
+    options: {
+      filter?: CommentFilter;
+      format?: CommentFormat;
+      cursor?: string;
+      pageSize?: number;
+      maxTokens?: number;
+    } = {},
+    signal?: AbortSignal
+  ): Promise<{ threads: CommentThread[] | string; totalThreads: number; nextCursor?: string; hasMore: boolean }> {
+    console.debug('[MCP Debug] Getting comments for file:', fileKey);
+    const filter = options.filter ?? {};
+    const data = await this.http.get(`/files/${fileKey}/comments`, { signal });
+    const comments: FigmaComment[] = data?.comments ?? [];
+
+    // Only pinned comments need the document, for node names and breadcrumbs
+    const nodeIds = pinnedNodeIds(comments);
+    const locations = nodeIds.size > 0
+      ? locateNodes((await this.loadFile(fileKey, signal)).document, nodeIds)
+      : new Map();
+    const threads = buildThreads(comments, filter, locations);
+
+    const cursorState = {
+      fileKey,
+      fileVersion: 'comments',
+      filterHash: hashFilterOptions({ summaryLevel: 'comments', query: filter }),
+    };
+    const createdAt = (thread: CommentThread) => Date.parse(thread.createdAt);
+
+    // The cursor is [creation time, id] of the last thread returned. Threads
+    // are ordered by both, and Figma comment ids are numeric.
+    let start = 0;
+    if (options.cursor) {
+      const [after, afterId] = verifyCursor(options.cursor, cursorState).stack;
+      while (
+        start < threads.length &&
+        (createdAt(threads[start]) < after ||
+          (createdAt(threads[start]) === after && Number(threads[start].id) <= (afterId ?? -1)))
+      ) {
+        start++;
       }
+    }
+    const end = pageEnd(threads, start, options.pageSize || 50, options.maxTokens || this.config.maxTokens);
+    const items = threads.slice(start, end);
+
+    const hasMore = end < threads.length;
+    const last = threads[end - 1];
+    const nextCursor = hasMore
+      ? encodeCursor({ ...cursorState, stack: [createdAt(last), Number(last.id) || 0] })
+      : undefined;
+    return {
+      threads: options.format === 'markdown' ? formatThreadsMarkdown(items) : items,
+      totalThreads: threads.length,
+      nextCursor,
+      hasMore,
+    };
+  }
 
-      return response.data;
-    } catch (error) {
-      console.error('[MCP Error] Failed to get styles:', error);
-      throw error;
+  /**
+   * Posts a comment, pinned to a node when nodeId is given, or a reply to
+   * the comment parentId.
+   */
+  async postComment(
+    fileKey: string,
+    comment: { message: string; nodeId?: string; nodeOffset?: { x: number; y: number }; parentId?: string },
+    signal?: AbortSignal
+  ): Promise<FigmaComment> {
+    console.debug('[MCP Debug] Posting comment on file:', fileKey, {
+      nodeId: comment.nodeId,
+      parentId: comment.parentId,
+    });
+    const body: { [key: string]: unknown } = { message: comment.message };
+    if (comment.parentId) body.comment_id = comment.parentId;
+    if (comment.nodeId) {
+      body.client_meta = { node_id: comment.nodeId, node_offset: comment.nodeOffset ?? { x: 0, y: 0 } };
     }
+    return this.http.post(`/files/${fileKey}/comments`, body, { signal });
+  }
+
+  async deleteComment(fileKey: string, commentId: string, signal?: AbortSignal) {
+    console.debug('[MCP Debug] Deleting comment:', fileKey, commentId);
+    await this.http.delete(`/files/${fileKey}/comments/${encodeURIComponent(commentId)}`, { signal });
+    return { deleted: commentId };
   }
 
-  async getFileVersions(fileKey: string) {
-    try {
-      console.debug('[MCP Debug] Getting versions for file:', fileKey);
-      const response = await this.client.get(`/files/${fileKey}/versions`);
-      
-      if (this.nodeProcessor.hasReachedLimit()) {
-        console.debug('[MCP Debug] Memory limit reached while processing versions');
-        throw new Error('Memory limit exceeded while processing versions');
+  async addCommentReaction(fileKey: string, commentId: string, emoji: string, signal?: AbortSignal) {
+    console.debug('[MCP Debug] Adding reaction:', fileKey, commentId, emoji);
+    await this.http.post(`/files/${fileKey}/comments/${encodeURIComponent(commentId)}/reactions`, { emoji }, { signal });
+    return this.getCommentReactions(fileKey, commentId, signal);
+  }
+
+  async removeCommentReaction(fileKey: string, commentId: string, emoji: string, signal?: AbortSignal) {
+    console.debug('[MCP Debug] Removing reaction:', fileKey, commentId, emoji);
+    await this.http.delete(`/files/${fileKey}/comments/${encodeURIComponent(commentId)}/reactions`, {
+      params: { emoji },
+      signal,
+    });
+    return this.getCommentReactions(fileKey, commentId, signal);
+  }
+
+  private async getCommentReactions(
+    fileKey: string,
+    commentId: string,
+    signal?: AbortSignal
+  ): Promise<{ commentId: string; reactions: FigmaCommentReaction[] }> {
+    const data = await this.http.get(`/files/${fileKey}/comments/${encodeURIComponent(commentId)}/reactions`, {
+      signal,
+    });
+    return { commentId, reactions: data?.reactions ?? [] };
+  }
+
+  async getFileNodes(
+    fileKey: string,
+    ids: string[],
+    signal?: AbortSignal
+  ): Promise<{ version: string; nodes: { [id: string]: FileNodeEntry | null } }> {
+    console.debug('[MCP Debug] Getting nodes for file:', fileKey, 'IDs:', ids);
+
+    const cachedNodes: { [id: string]: FileNodeEntry } = {};
+    const cached = await this.getCachedFile(fileKey, signal);
+    const missingIds = ids.filter((id) => {
+      const node = cached && this.cache.findNode(fileKey, id);
+      if (node) {
+        cachedNodes[id] = { document: node, components: cached.components };
       }
+      return !node;
+    });
+    if (cached) {
+      console.debug('[MCP Debug] Served nodes from cache:', Object.keys(cachedNodes).length);
+    }
+
+    const fetched = missingIds.length > 0 ? await this.loadNodes(fileKey, missingIds, signal) : undefined;
+    return {
+      version: cached?.version ?? String(fetched?.version),
+      nodes: { ...cachedNodes, ...fetched?.nodes },
+    };
+  }
+
+  /**
+   * Fetches nodes from the /nodes endpoint, reusing the cached response for
+   * the same ids while the file version is unchanged.
+   */
+  private async loadNodes(fileKey: string, ids: string[], signal?: AbortSignal): Promise<CachedNodes> {
+    const cached = this.cache.getNodes(fileKey, ids);
+    if (cached && (await this.isCurrent(fileKey, cached, signal))) {
+      console.debug('[MCP Debug] Serving nodes from cache:', fileKey, 'version:', cached.version);
+      return cached;
+    }
+
+    // Process nodes in chunks to manage memory
+    const chunkSize = 50; // Process 50 nodes at a time
+    const chunks: Array<{ version?: string | number; nodes: { [id: string]: FileNodeEntry | null } }> = [];
+
+    for (let i = 0; i < ids.length; i += chunkSize) {
+      const chunkIds = ids.slice(i, i + chunkSize);
+      const data = await this.http.get(`/files/${fileKey}/nodes`, {
+        params: { ids: chunkIds.join(',') },
+        signal,
+      });
 
-      return response.data;
-    } catch (error) {
-      console.error('[MCP Error] Failed to get file versions:', error);
-      throw error;
+      chunks.push(data);
     }
+    this.verifiedFiles.add(fileKey);
+
+    // Merge chunks
+    return this.cache.setNodes({
+      fileKey,
+      ids,
+      version: String(chunks.find((chunk) => chunk.version !== undefined)?.version),
+      nodes: chunks.reduce((acc, chunk) => ({ ...acc, ...chunk.nodes }), {}),
+    });
   }
 
-  async getFileComments(fileKey: string) {
-    try {
-      console.debug('[MCP Debug] Getting comments for file:', fileKey);
-      const response = await this.client.get(`/files/${fileKey}/comments`);
-      
-      if (this.nodeProcessor.hasReachedLimit()) {
-        console.debug('[MCP Debug] Memory limit reached while processing comments');
-        throw new Error('Memory limit exceeded while processing comments');
+  async exportNodeImages(
+    fileKey: string,
+    ids: string[],
+    options: ImageExportOptions,
+    signal?: AbortSignal
+  ): Promise<ExportedImage[]> {
+    console.debug('[MCP Debug] Exporting images for file:', fileKey, 'IDs:', ids, options);
+
+    const nodes: { [id: string]: SceneNode | undefined } = {};
+    if (options.useExportSettings) {
+      const data = await this.getFileNodes(fileKey, ids, signal);
+      for (const [id, entry] of Object.entries<any>(data.nodes)) {
+        nodes[id] = entry?.document ?? undefined;
       }
+    }
+
+    const images: ExportedImage[] = [];
+    const chunkSize = 50; // Render 50 nodes per request, like getFileNodes
+    for (const group of planImageRenders(ids, nodes, options)) {
+      for (let i = 0; i < group.ids.length; i += chunkSize) {
+        const chunkIds = group.ids.slice(i, i + chunkSize);
+        const data = await this.http.get(`/images/${fileKey}`, {
+          params: {
+            ids: chunkIds.join(','),
+            format: group.format,
+            scale: group.scale,
+            svg_include_id: group.format === 'svg' ? options.svgIncludeId : undefined,
+            svg_simplify_stroke: group.format === 'svg' ? options.svgSimplifyStroke : undefined,
+            svg_outline_text: group.format === 'svg' ? options.svgOutlineText : undefined,
+          },
+          signal,
+        });
+        if (data.err) {
+          throw new FigmaApiError(`Figma API error rendering images: ${data.err}`);
+        }
 
-      return response.data;
-    } catch (error) {
-      console.error('[MCP Error] Failed to get file comments:', error);
-      throw error;
+        for (const id of chunkIds) {
+          images.push({
+            nodeId: id,
+            format: group.format,
+            scale: group.scale,
+            suffix: group.suffix,
+            url: data.images?.[id] ?? null,
+          });
+        }
+      }
     }
+
+    return images;
+  }
+
+  async downloadImage(url: string, signal?: AbortSignal) {
+    return this.http.download(url, { signal });
   }
 
-  async getFileNodes(fileKey: string, ids: string[]) {
-    try {
-      console.debug('[MCP Debug] Getting nodes for file:', fileKey, 'IDs:', ids);
-      
-      // Process nodes in chunks to manage memory
-      const chunkSize = 50; // Process 50 nodes at a time
-      const chunks = [];
-      
-      for (let i = 0; i < ids.length; i += chunkSize) {
-        if (this.nodeProcessor.hasReachedLimit()) {
-          console.debug('[MCP Debug] Memory limit reached while processing nodes');
-          throw new Error('Memory limit exceeded while processing nodes');
+  async getImageFillUrls(fileKey: string, signal?: AbortSignal): Promise<{ [imageRef: string]: string }> {
+    console.debug('[MCP Debug] Getting image fills for file:', fileKey);
+    const data = await this.http.get(`/files/${fileKey}/images`, { signal });
+    return data?.meta?.images ?? {};
+  }
+
+  private async describeImageFills(
+    refs: Map<string, string[]>,
+    urls: { [imageRef: string]: string },
+    includeDetails = false,
+    signal?: AbortSignal
+  ): Promise<{ [imageRef: string]: ImageFillUsage }> {
+    const result: { [imageRef: string]: ImageFillUsage } = {};
+    for (const [imageRef, nodeIds] of refs) {
+      const usage: ImageFillUsage = { url: urls[imageRef] ?? null, nodeIds };
+      if (includeDetails && usage.url) {
+        Object.assign(usage, await this.http.inspect(usage.url, { signal }));
+      }
+      result[imageRef] = usage;
+    }
+    return result;
+  }
+
+  /**
+   * Maps imageRefs to their download URLs, keeping the ids of the nodes
+   * that use each image. With `includeDetails`, each image is also probed
+   * for its content type and size.
+   */
+  async resolveImageFills(
+    fileKey: string,
+    refs: Map<string, string[]>,
+    includeDetails = false,
+    signal?: AbortSignal
+  ): Promise<{ [imageRef: string]: ImageFillUsage }> {
+    if (refs.size === 0) return {};
+    const urls = await this.getImageFillUrls(fileKey, signal);
+    return this.describeImageFills(refs, urls, includeDetails, signal);
+  }
+
+  async getImageFills(
+    fileKey: string,
+    options: { imageRefs?: string[]; includeDetails?: boolean } = {},
+    signal?: AbortSignal
+  ) {
+    const file = await this.loadFile(fileKey, signal);
+    const urls = await this.getImageFillUrls(fileKey, signal);
+    const refs = collectImageRefs(file.document.children);
+
+    // Images can be uploaded to a file without being used by any node
+    for (const imageRef of Object.keys(urls)) {
+      if (!refs.has(imageRef)) {
+        refs.set(imageRef, []);
+      }
+    }
+    if (options.imageRefs?.length) {
+      for (const imageRef of [...refs.keys()]) {
+        if (!options.imageRefs.includes(imageRef)) {
+          refs.delete(imageRef);
         }
+      }
+    }
 
-        const chunkIds = ids.slice(i, i + chunkSize);
-        const response = await this.client.get(`/files/${fileKey}/nodes`, {
-          params: { ids: chunkIds.join(',') },
-        });
-        
-        chunks.push(response.data);
+    return this.describeImageFills(refs, urls, options.includeDetails, signal);
+  }
+
+  async extractDesignTokens(
+    fileKey: string,
+    format: TokenFormat = 'dtcg',
+    signal?: AbortSignal
+  ): Promise<DesignTokens> {
+    const data = await this.getStyles(fileKey, signal);
+    const styles: FigmaPublishedStyle[] = data?.meta?.styles ?? [];
+    console.debug('[MCP Debug] Extracting design tokens from styles:', styles.length);
+
+    const nodes: { [id: string]: SceneNode | undefined } = {};
+    const nodeIds = [...new Set(styles.map((style) => style.node_id))];
+    if (nodeIds.length > 0) {
+      const nodeData = await this.getFileNodes(fileKey, nodeIds, signal);
+      for (const [id, entry] of Object.entries<any>(nodeData.nodes)) {
+        nodes[id] = entry?.document ?? undefined;
       }
+    }
 
-      // Merge chunks
-      const mergedData = {
-        nodes: chunks.reduce((acc, chunk) => ({ ...acc, ...chunk.nodes }), {})
-      };
+    return buildDesignTokens(styles, nodes, format);
+  }
 
-      return mergedData;
-    } catch (error) {
-      console.error('[MCP Error] Failed to get file nodes:', error);
-      throw error;
+  private async fetchLocalVariables(fileKey: string, signal?: AbortSignal): Promise<LocalVariables> {
+    const data = await this.http.get(`/files/${fileKey}/variables/local`, { signal });
+    return {
+      variables: data?.meta?.variables ?? {},
+      variableCollections: data?.meta?.variableCollections ?? {},
+    };
+  }
+
+  async getLocalVariables(fileKey: string, signal?: AbortSignal) {
+    console.debug('[MCP Debug] Getting local variables for file:', fileKey);
+    const meta = await this.fetchLocalVariables(fileKey, signal);
+    return { collections: resolveLocalVariables(meta) };
+  }
+
+  async getPublishedVariables(fileKey: string, signal?: AbortSignal) {
+    console.debug('[MCP Debug] Getting published variables for file:', fileKey);
+    const data = await this.http.get(`/files/${fileKey}/variables/published`, { signal });
+    const variables: PublishedVariable[] = Object.values(data?.meta?.variables ?? {});
+    const collections: PublishedVariableCollection[] = Object.values(data?.meta?.variableCollections ?? {});
+
+    return {
+      collections: collections.map((collection) => ({
+        ...collection,
+        variables: variables.filter((variable) => variable.variableCollectionId === collection.id),
+      })),
+    };
+  }
+
+  /**
+   * Resolves the variables bound to the given nodes to their values in every
+   * mode. Variables from libraries that are not defined in this file are
+   * reported as unresolved.
+   */
+  async resolveBoundVariables(
+    fileKey: string,
+    nodes: SceneNode[],
+    includeDescendants = true,
+    signal?: AbortSignal
+  ) {
+    const ids = collectBoundVariableIds(nodes, includeDescendants);
+    if (ids.size === 0) return {};
+
+    const meta = await this.fetchLocalVariables(fileKey, signal);
+    const result: { [id: string]: ResolvedVariable | { id: string; unresolved: string } } = {};
+    for (const id of ids) {
+      const variable = meta.variables[id];
+      result[id] = variable
+        ? resolveVariable(meta, variable)
+        : { id, unresolved: 'Variable is not defined in this file' };
+    }
+    return result;
+  }
+
+  async generateCode(
+    fileKey: string,
+    nodeId: string,
+    target: CodeTarget,
+    signal?: AbortSignal
+  ): Promise<GeneratedCode> {
+    console.debug('[MCP Debug] Generating code for node:', nodeId, 'target:', target);
+    const data = await this.getFileNodes(fileKey, [nodeId], signal);
+    const node: SceneNode | undefined = (data.nodes as any)[nodeId]?.document ?? undefined;
+    if (!node) {
+      throw new FigmaNotFoundError(`Node ${nodeId} not found in file ${fileKey}`);
     }
+    return generateCode(node, target);
   }
 }
@@ -0,0 +1,623 @@
+import { colorToCss } from './color.js';
+import type { Effect, Paint, SceneNode, TypeStyle, Vector } from './types.js';
+
+/**
+ * Output target: plain HTML with a stylesheet, or a React component styled
+ * with Tailwind utility classes.
+ */
+export type CodeTarget = 'html' | 'react-tailwind';
+
+export interface GeneratedCode {
+  target: CodeTarget;
+  files: { [fileName: string]: string };
+  todos: string[];
+}
+
+interface CssDeclarations {
+  [property: string]: string;
+}
+
+/**
+ * An element in the intermediate tree shared by both emitters.
+ */
+interface ElementNode {
+  nodeId: string;
+  name: string;
+  className: string;
+  tag: 'div' | 'p' | 'span';
+  styles: CssDeclarations;
+  text?: string;
+  todos: string[];
+  children: ElementNode[];
+}
+
+const AXIS_ALIGNMENT: { [value: string]: string } = {
+  MIN: 'flex-start',
+  CENTER: 'center',
+  MAX: 'flex-end',
+  SPACE_BETWEEN: 'space-between',
+  BASELINE: 'baseline',
+};
+
+const TEXT_ALIGNMENT: { [value: string]: string } = {
+  LEFT: 'left',
+  RIGHT: 'right',
+  CENTER: 'center',
+  JUSTIFIED: 'justify',
+};
+
+const TEXT_CASE: { [value: string]: string } = {
+  UPPER: 'uppercase',
+  LOWER: 'lowercase',
+  TITLE: 'capitalize',
+};
+
+// Node types whose geometry has no reasonable CSS equivalent
+const VECTOR_TYPES = ['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'LINE', 'ELLIPSE', 'REGULAR_POLYGON'];
+
+// Slices only mark export regions and draw nothing
+const SKIPPED_TYPES = ['SLICE'];
+
+function px(value: number): string {
+  return `${Math.round(value * 100) / 100}px`;
+}
+
+function slug(name: string): string {
+  const result = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return /^[a-z]/.test(result) ? result : `node-${result || 'unnamed'}`;
+}
+
+function componentName(name: string): string {
+  const words = name.replace(/[^A-Za-z0-9]+/g, ' ').trim().split(/\s+/).filter(Boolean);
+  const result = words.map((word) => word[0].toUpperCase() + word.slice(1)).join('');
+  return /^[A-Z]/.test(result) ? result : `Figma${result || 'Component'}`;
+}
+
+function gradientAngle(handles: Vector[] | undefined): number {
+  if (!handles || handles.length < 2) return 180;
+  const dx = handles[1].x - handles[0].x;
+  const dy = handles[1].y - handles[0].y;
+  // CSS angles start at "to top" and turn clockwise; Figma's y axis points down
+  return Math.round(((Math.atan2(dx, -dy) * 180) / Math.PI + 360) % 360);
+}
+
+function paintToCss(paint: Paint, todos: string[]): string | undefined {
+  const opacity = paint.opacity ?? 1;
+  const stops = () =>
+    (paint.gradientStops ?? [])
+      .map((stop) => `${colorToCss(stop.color, opacity)} ${Math.round(stop.position * 100)}%`)
+      .join(', ');
+
+  switch (paint.type) {
+    case 'SOLID':
+      return paint.color ? colorToCss(paint.color, opacity) : undefined;
+    case 'GRADIENT_LINEAR':
+      return `linear-gradient(${gradientAngle(paint.gradientHandlePositions)}deg, ${stops()})`;
+    case 'GRADIENT_RADIAL':
+    case 'GRADIENT_DIAMOND':
+      if (paint.type === 'GRADIENT_DIAMOND') {
+        todos.push('Diamond gradient approximated as a radial gradient');
+      }
+      return `radial-gradient(${stops()})`;
+    case 'GRADIENT_ANGULAR':
+      return `conic-gradient(${stops()})`;
+    case 'IMAGE':
+      todos.push(
+        paint.imageRef
+          ? `Image fill ${paint.imageRef} needs an asset URL (see get_image_fills)`
+          : 'Image fill needs an asset URL'
+      );
+      return undefined;
+    default:
+      todos.push(`${paint.type} paint is not supported`);
+      return undefined;
+  }
+}
+
+function applyFills(node: SceneNode, styles: CssDeclarations, todos: string[]) {
+  const fills: Paint[] = ((node as any).fills ?? (node as any).background ?? []).filter(
+    (paint: Paint) => paint.visible !== false
+  );
+  if (fills.length === 0) return;
+
+  if (node.type === 'TEXT') {
+    const solid = fills.find((paint) => paint.type === 'SOLID' && paint.color);
+    if (solid) {
+      styles['color'] = colorToCss(solid.color!, solid.opacity ?? 1);
+    }
+    if (fills.length > 1 || !solid) {
+      todos.push('Text fill other than a single solid color is not supported');
+    }
+    return;
+  }
+
+  // Figma lists paints bottom to top, CSS lists backgrounds top to bottom
+  const layers = [...fills]
+    .reverse()
+    .map((paint) => paintToCss(paint, todos))
+    .filter((layer): layer is string => Boolean(layer));
+  if (layers.length === 1 && !layers[0].includes('gradient(')) {
+    styles['background-color'] = layers[0];
+  } else if (layers.length > 0) {
+    // A solid color is only valid as the last background layer
+    styles['background'] = layers
+      .map((layer, index) =>
+        layer.includes('gradient(') || index === layers.length - 1
+          ? layer
+          : `linear-gradient(${layer}, ${layer})`
+      )
+      .join(', ');
+  }
+}
+
+function applyStrokes(node: SceneNode, styles: CssDeclarations, todos: string[]) {
+  const strokes: Paint[] = ((node as any).strokes ?? []).filter((paint: Paint) => paint.visible !== false);
+  const weight: number | undefined = (node as any).strokeWeight;
+  if (strokes.length === 0 || !weight) return;
+
+  const stroke = strokes[strokes.length - 1];
+  if (stroke.type !== 'SOLID' || !stroke.color) {
+    todos.push(`${stroke.type} stroke is not supported`);
+    return;
+  }
+  const value = `${px(weight)} solid ${colorToCss(stroke.color, stroke.opacity ?? 1)}`;
+  if ((node as any).strokeAlign === 'OUTSIDE') {
+    styles['outline'] = value;
+  } else {
+    styles['border'] = value;
+    if ((node as any).strokeAlign === 'CENTER') {
+      todos.push('Center-aligned stroke approximated as an inside border');
+    }
+  }
+  if (strokes.length > 1) {
+    todos.push('Only the top stroke is rendered');
+  }
+}
+
+function applyEffects(node: SceneNode, styles: CssDeclarations, todos: string[]) {
+  const effects: Effect[] = ((node as any).effects ?? []).filter((effect: Effect) => effect.visible !== false);
+  const shadows: string[] = [];
+
+  for (const effect of effects) {
+    if (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW') {
+      const color = effect.color ? colorToCss(effect.color) : 'rgba(0, 0, 0, 0.25)';
+      const offset = `${px(effect.offset?.x ?? 0)} ${px(effect.offset?.y ?? 0)} ${px(effect.radius ?? 0)}`;
+      if (node.type === 'TEXT') {
+        if (effect.type === 'INNER_SHADOW') {
+          todos.push('Inner shadow on text is not supported');
+        } else {
+          shadows.push(`${offset} ${color}`);
+        }
+      } else {
+        const inset = effect.type === 'INNER_SHADOW' ? 'inset ' : '';
+        shadows.push(`${inset}${offset} ${px(effect.spread ?? 0)} ${color}`);
+      }
+    } else if (effect.type === 'LAYER_BLUR') {
+      styles['filter'] = `blur(${px((effect.radius ?? 0) / 2)})`;
+    } else if (effect.type === 'BACKGROUND_BLUR') {
+      styles['backdrop-filter'] = `blur(${px((effect.radius ?? 0) / 2)})`;
+    }
+  }
+
+  if (shadows.length > 0) {
+    styles[node.type === 'TEXT' ? 'text-shadow' : 'box-shadow'] = shadows.join(', ');
+  }
+}
+
+function applyTypography(style: TypeStyle | undefined, styles: CssDeclarations) {
+  if (!style) return;
+  styles['font-family'] = `'${style.fontFamily}'`;
+  styles['font-size'] = px(style.fontSize);
+  styles['font-weight'] = String(style.fontWeight);
+  if (style.italic) styles['font-style'] = 'italic';
+  if (style.lineHeightPx) styles['line-height'] = px(style.lineHeightPx);
+  if (style.letterSpacing) styles['letter-spacing'] = px(style.letterSpacing);
+  if (style.textAlignHorizontal && style.textAlignHorizontal !== 'LEFT') {
+    styles['text-align'] = TEXT_ALIGNMENT[style.textAlignHorizontal];
+  }
+  if (style.textCase && TEXT_CASE[style.textCase]) {
+    styles['text-transform'] = TEXT_CASE[style.textCase];
+  }
+  if (style.textDecoration === 'UNDERLINE') styles['text-decoration'] = 'underline';
+  if (style.textDecoration === 'STRIKETHROUGH') styles['text-decoration'] = 'line-through';
+}
+
+function applyCornerRadius(node: SceneNode, styles: CssDeclarations) {
+  const radii: number[] | undefined = (node as any).rectangleCornerRadii;
+  const radius: number | undefined = (node as any).cornerRadius;
+  if (radii && radii.some((value) => value !== radii[0])) {
+    styles['border-radius'] = radii.map(px).join(' ');
+  } else if (radius) {
+    styles['border-radius'] = px(radius);
+  }
+}
+
+function applyAutoLayout(node: SceneNode, styles: CssDeclarations, todos: string[]) {
+  const frame = node as any;
+  if (frame.layoutMode !== 'HORIZONTAL' && frame.layoutMode !== 'VERTICAL') return;
+
+  styles['display'] = 'flex';
+  styles['flex-direction'] = frame.layoutMode === 'HORIZONTAL' ? 'row' : 'column';
+  if (frame.layoutWrap === 'WRAP') {
+    styles['flex-wrap'] = 'wrap';
+    if (frame.counterAxisSpacing) styles['row-gap'] = px(frame.counterAxisSpacing);
+  }
+  if (frame.itemSpacing && frame.primaryAxisAlignItems !== 'SPACE_BETWEEN') {
+    styles[frame.layoutWrap === 'WRAP' ? 'column-gap' : 'gap'] = px(frame.itemSpacing);
+  }
+  if (frame.primaryAxisAlignItems && frame.primaryAxisAlignItems !== 'MIN') {
+    styles['justify-content'] = AXIS_ALIGNMENT[frame.primaryAxisAlignItems];
+  }
+  if (frame.counterAxisAlignItems && frame.counterAxisAlignItems !== 'MIN') {
+    styles['align-items'] = AXIS_ALIGNMENT[frame.counterAxisAlignItems];
+  }
+
+  const padding = [frame.paddingTop, frame.paddingRight, frame.paddingBottom, frame.paddingLeft].map(
+    (value: number | undefined) => value ?? 0
+  );
+  if (padding.some((value) => value !== 0)) {
+    const [top, right, bottom, left] = padding;
+    if (padding.every((value) => value === top)) {
+      styles['padding'] = px(top);
+    } else if (top === bottom && left === right) {
+      styles['padding'] = `${px(top)} ${px(right)}`;
+    } else {
+      styles['padding'] = padding.map(px).join(' ');
+    }
+  }
+  if (frame.itemReverseZIndex) {
+    todos.push('Reversed z-index stacking is not supported');
+  }
+}
+
+function isAutoLayout(node: SceneNode | undefined): boolean {
+  const mode = (node as any)?.layoutMode;
+  return mode === 'HORIZONTAL' || mode === 'VERTICAL';
+}
+
+/**
+ * Resolves how a node is sized along each axis. Newer files report
+ * layoutSizingHorizontal/Vertical; older ones only the axis sizing modes.
+ */
+function sizing(node: SceneNode, parent: SceneNode | undefined): { horizontal: string; vertical: string } {
+  const frame = node as any;
+  if (frame.layoutSizingHorizontal && frame.layoutSizingVertical) {
+    return { horizontal: frame.layoutSizingHorizontal, vertical: frame.layoutSizingVertical };
+  }
+
+  let horizontal = 'FIXED';
+  let vertical = 'FIXED';
+  if (node.type === 'TEXT') {
+    const autoResize = frame.style?.textAutoResize ?? frame.textAutoResize;
+    if (autoResize === 'WIDTH_AND_HEIGHT') horizontal = vertical = 'HUG';
+    else if (autoResize === 'HEIGHT') vertical = 'HUG';
+  } else if (isAutoLayout(node)) {
+    const primaryHug = frame.primaryAxisSizingMode === 'AUTO';
+    const counterHug = frame.counterAxisSizingMode === 'AUTO';
+    if (frame.layoutMode === 'HORIZONTAL') {
+      horizontal = primaryHug ? 'HUG' : 'FIXED';
+      vertical = counterHug ? 'HUG' : 'FIXED';
+    } else {
+      vertical = primaryHug ? 'HUG' : 'FIXED';
+      horizontal = counterHug ? 'HUG' : 'FIXED';
+    }
+  }
+
+  if (isAutoLayout(parent)) {
+    const parentHorizontal = (parent as any).layoutMode === 'HORIZONTAL';
+    if (frame.layoutGrow === 1) {
+      if (parentHorizontal) horizontal = 'FILL';
+      else vertical = 'FILL';
+    }
+    if (frame.layoutAlign === 'STRETCH') {
+      if (parentHorizontal) vertical = 'FILL';
+      else horizontal = 'FILL';
+    }
+  }
+  return { horizontal, vertical };
+}
+
+function applySizeAndPosition(
+  node: SceneNode,
+  parent: SceneNode | undefined,
+  styles: CssDeclarations
+) {
+  const box = node.absoluteBoundingBox;
+  const frame = node as any;
+  const { horizontal, vertical } = sizing(node, parent);
+  const parentHorizontal = (parent as any)?.layoutMode === 'HORIZONTAL';
+
+  if (horizontal === 'FILL') {
+    if (parentHorizontal) styles['flex'] = '1 1 0';
+    else styles['align-self'] = 'stretch';
+  } else if (horizontal === 'FIXED' && box) {
+    styles['width'] = px(box.width);
+  }
+  if (vertical === 'FILL') {
+    if (!parentHorizontal && isAutoLayout(parent)) styles['flex'] = '1 1 0';
+    else styles['align-self'] = 'stretch';
+  } else if (vertical === 'FIXED' && box) {
+    styles['height'] = px(box.height);
+  }
+
+  const absolute = parent && (!isAutoLayout(parent) || frame.layoutPositioning === 'ABSOLUTE');
+  if (absolute && box && parent?.absoluteBoundingBox) {
+    styles['position'] = 'absolute';
+    styles['left'] = px(box.x - parent.absoluteBoundingBox.x);
+    styles['top'] = px(box.y - parent.absoluteBoundingBox.y);
+  }
+}
+
+function hasAbsoluteChildren(node: SceneNode): boolean {
+  if (!('children' in node) || node.children.length === 0) return false;
+  return !isAutoLayout(node) || node.children.some((child) => (child as any).layoutPositioning === 'ABSOLUTE');
+}
+
+class ElementBuilder {
+  private classNames: Map<string, number>;
+  private todos: string[];
+
+  constructor() {
+    this.classNames = new Map();
+    this.todos = [];
+  }
+
+  private uniqueClassName(name: string): string {
+    const base = slug(name);
+    const count = (this.classNames.get(base) ?? 0) + 1;
+    this.classNames.set(base, count);
+    return count === 1 ? base : `${base}-${count}`;
+  }
+
+  build(node: SceneNode, parent?: SceneNode): ElementNode | null {
+    if (node.visible === false || SKIPPED_TYPES.includes(node.type)) return null;
+
+    const styles: CssDeclarations = {};
+    const todos: string[] = [];
+    const frame = node as any;
+
+    applySizeAndPosition(node, parent, styles);
+    applyAutoLayout(node, styles, todos);
+    if (hasAbsoluteChildren(node) && !styles['position']) {
+      styles['position'] = 'relative';
+    }
+    applyFills(node, styles, todos);
+    applyStrokes(node, styles, todos);
+    applyCornerRadius(node, styles);
+    applyEffects(node, styles, todos);
+    if (frame.opacity !== undefined && frame.opacity < 1) {
+      styles['opacity'] = String(Math.round(frame.opacity * 100) / 100);
+    }
+    const blendMode: string | undefined = frame.blendMode?.type ?? frame.blendMode;
+    if (blendMode && blendMode !== 'PASS_THROUGH' && blendMode !== 'NORMAL') {
+      styles['mix-blend-mode'] = blendMode.toLowerCase().replace(/_/g, '-').replace('linear-', '');
+    }
+    if (frame.clipsContent) {
+      styles['overflow'] = 'hidden';
+    }
+    if (frame.rotation && Math.abs(frame.rotation) > 0.01) {
+      todos.push(`Rotation of ${Math.round(frame.rotation)}° is not applied`);
+    }
+
+    const element: ElementNode = {
+      nodeId: node.id,
+      name: node.name,
+      className: this.uniqueClassName(node.name),
+      tag: 'div',
+      styles,
+      todos,
+      children: [],
+    };
+
+    if (node.type === 'TEXT') {
+      element.tag = 'p';
+      element.text = node.characters;
+      applyTypography(node.style, styles);
+      styles['margin'] = '0';
+      if (node.characterStyleOverrides?.some((override) => override !== 0)) {
+        todos.push('Mixed text styles within this text are not generated');
+      }
+    } else if (VECTOR_TYPES.includes(node.type)) {
+      todos.push(`${node.type} "${node.name}" should be exported as SVG (see export_node_images)`);
+    } else if ('children' in node) {
+      for (const child of node.children) {
+        const childElement = this.build(child, node);
+        if (childElement) {
+          element.children.push(childElement);
+        }
+      }
+    }
+
+    this.todos.push(...todos.map((todo) => `${node.name} (${node.id}): ${todo}`));
+    return element;
+  }
+
+  getTodos(): string[] {
+    return this.todos;
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function commentText(text: string): string {
+  return text.replace(/\*\//g, '* /').replace(/--/g, '- -');
+}
+
+function emitHtml(element: ElementNode, indent: string, lines: string[]) {
+  for (const todo of element.todos) {
+    lines.push(`${indent}<!-- TODO: ${commentText(todo)} -->`);
+  }
+  const open = `${indent}<${element.tag} class="${element.className}" data-node-id="${escapeHtml(element.nodeId)}">`;
+  if (element.text !== undefined) {
+    lines.push(`${open}${escapeHtml(element.text).replace(/\n/g, '<br />')}</${element.tag}>`);
+  } else if (element.children.length === 0) {
+    lines.push(`${open}</${element.tag}>`);
+  } else {
+    lines.push(open);
+    element.children.forEach((child) => emitHtml(child, `${indent}  `, lines));
+    lines.push(`${indent}</${element.tag}>`);
+  }
+}
+
+function emitCss(element: ElementNode, lines: string[]) {
+  const declarations = Object.entries(element.styles);
+  if (declarations.length > 0 || element.todos.length > 0) {
+    lines.push(`.${element.className} {`);
+    for (const todo of element.todos) {
+      lines.push(`  /* TODO: ${commentText(todo)} */`);
+    }
+    for (const [property, value] of declarations) {
+      lines.push(`  ${property}: ${value};`);
+    }
+    lines.push('}', '');
+  }
+  element.children.forEach((child) => emitCss(child, lines));
+}
+
+const TAILWIND_KEYWORDS: { [declaration: string]: string } = {
+  'display: flex': 'flex',
+  'flex-direction: row': 'flex-row',
+  'flex-direction: column': 'flex-col',
+  'flex-wrap: wrap': 'flex-wrap',
+  'flex: 1 1 0': 'flex-1',
+  'align-self: stretch': 'self-stretch',
+  'justify-content: flex-start': 'justify-start',
+  'justify-content: center': 'justify-center',
+  'justify-content: flex-end': 'justify-end',
+  'justify-content: space-between': 'justify-between',
+  'align-items: flex-start': 'items-start',
+  'align-items: center': 'items-center',
+  'align-items: flex-end': 'items-end',
+  'align-items: baseline': 'items-baseline',
+  'position: absolute': 'absolute',
+  'position: relative': 'relative',
+  'overflow: hidden': 'overflow-hidden',
+  'font-style: italic': 'italic',
+  'text-align: center': 'text-center',
+  'text-align: right': 'text-right',
+  'text-align: justify': 'text-justify',
+  'text-transform: uppercase': 'uppercase',
+  'text-transform: lowercase': 'lowercase',
+  'text-transform: capitalize': 'capitalize',
+  'text-decoration: underline': 'underline',
+  'text-decoration: line-through': 'line-through',
+  'margin: 0': 'm-0',
+};
+
+const TAILWIND_PREFIXES: { [property: string]: string } = {
+  'width': 'w',
+  'height': 'h',
+  'gap': 'gap',
+  'row-gap': 'gap-y',
+  'column-gap': 'gap-x',
+  'padding': 'p',
+  'left': 'left',
+  'top': 'top',
+  'background-color': 'bg',
+  'color': 'text',
+  'font-size': 'text',
+  'font-weight': 'font',
+  'font-family': 'font',
+  'line-height': 'leading',
+  'letter-spacing': 'tracking',
+  'border-radius': 'rounded',
+  'box-shadow': 'shadow',
+  'opacity': 'opacity',
+};
+
+// Values that Tailwind cannot infer the type of from an arbitrary value
+const TAILWIND_TYPE_HINTS: { [property: string]: string } = {
+  'color': 'color:',
+  'font-size': 'length:',
+  'font-family': 'family-name:',
+  'font-weight': 'number:',
+};
+
+function tailwindClasses(styles: CssDeclarations): string[] {
+  return Object.entries(styles).map(([property, value]) => {
+    const keyword = TAILWIND_KEYWORDS[`${property}: ${value}`];
+    if (keyword) return keyword;
+
+    const arbitrary = value.replace(/_/g, '\\_').replace(/\s+/g, '_');
+    const prefix = TAILWIND_PREFIXES[property];
+    if (prefix) {
+      return `${prefix}-[${TAILWIND_TYPE_HINTS[property] ?? ''}${arbitrary}]`;
+    }
+    return `[${property}:${arbitrary}]`;
+  });
+}
+
+function jsxText(text: string): string {
+  return /[{}<>&"'`\\\n]/.test(text) ? `{${JSON.stringify(text)}}` : text;
+}
+
+function emitJsx(element: ElementNode, indent: string, lines: string[]) {
+  const classes = tailwindClasses(element.styles).join(' ');
+  const open = `${indent}<${element.tag} className="${classes}" data-node-id=${JSON.stringify(element.nodeId)}>`;
+  if (element.todos.length === 0 && element.text !== undefined) {
+    lines.push(`${open}${jsxText(element.text)}</${element.tag}>`);
+  } else if (element.todos.length === 0 && element.children.length === 0) {
+    lines.push(`${open}</${element.tag}>`);
+  } else {
+    // TODOs go inside the element so the component keeps a single root
+    lines.push(open);
+    for (const todo of element.todos) {
+      lines.push(`${indent}  {/* TODO: ${commentText(todo)} */}`);
+    }
+    if (element.text !== undefined) {
+      lines.push(`${indent}  ${jsxText(element.text)}`);
+    }
+    element.children.forEach((child) => emitJsx(child, `${indent}  `, lines));
+    lines.push(`${indent}</${element.tag}>`);
+  }
+}
+
+/**
+ * Generates code for a node subtree. Output is deterministic for the same
+ * input; anything that cannot be expressed is emitted as a TODO comment.
+ */
+export function generateCode(root: SceneNode, target: CodeTarget): GeneratedCode {
+  const builder = new ElementBuilder();
+  const element = builder.build(root);
+  const todos = builder.getTodos();
+  if (!element) {
+    throw new Error(`Node ${root.id} is hidden and has nothing to render`);
+  }
+
+  if (target === 'html') {
+    const html: string[] = [];
+    emitHtml(element, '', html);
+    const css: string[] = [];
+    emitCss(element, css);
+    return {
+      target,
+      files: {
+        [`${element.className}.html`]: html.join('\n') + '\n',
+        [`${element.className}.css`]: css.join('\n'),
+      },
+      todos,
+    };
+  }
+
+  const name = componentName(root.name);
+  const jsx: string[] = [];
+  emitJsx(element, '    ', jsx);
+  const source = [
+    `export function ${name}() {`,
+    '  return (',
+    ...jsx,
+    '  );',
+    '}',
+    '',
+  ].join('\n');
+  return { target, files: { [`${name}.tsx`]: source }, todos };
+}
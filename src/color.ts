@@ -0,0 +1,27 @@
+import type { Color } from './types.js';
+
+function channel(value: number): number {
+  return Math.round(Math.min(1, Math.max(0, value)) * 255);
+}
+
+/**
+ * Formats a Figma color as #rrggbb, or #rrggbbaa when it is translucent.
+ * `opacity` is the paint opacity, which multiplies the color's alpha.
+ */
+export function colorToHex(color: Color, opacity = 1): string {
+  const alpha = (color.a ?? 1) * opacity;
+  const hex = [color.r, color.g, color.b]
+    .map((value) => channel(value).toString(16).padStart(2, '0'))
+    .join('');
+  return alpha < 1 ? `#${hex}${channel(alpha).toString(16).padStart(2, '0')}` : `#${hex}`;
+}
+
+/**
+ * Formats a Figma color as a CSS color, using rgba() when it is translucent.
+ */
+export function colorToCss(color: Color, opacity = 1): string {
+  const alpha = (color.a ?? 1) * opacity;
+  if (alpha >= 1) return colorToHex(color);
+  const [r, g, b] = [color.r, color.g, color.b].map(channel);
+  return `rgba(${r}, ${g}, ${b}, ${Math.round(alpha * 100) / 100})`;
+}
@@ -0,0 +1,201 @@
+import type { Breadcrumb } from './search.js';
+import type { DocumentNode, FigmaComment, SceneNode } from './types.js';
+
+export type CommentStatus = 'all' | 'resolved' | 'unresolved';
+export type CommentFormat = 'json' | 'markdown';
+
+/**
+ * Filters for get_file_comments. A thread matches when it meets every given
+ * filter; author and date range match if any comment in the thread does.
+ */
+export interface CommentFilter {
+  status?: CommentStatus;
+  author?: string; // user handle, case-insensitive
+  since?: string; // ISO date, inclusive
+  until?: string; // ISO date, inclusive
+  nodeId?: string; // the node or any of its descendants
+}
+
+export interface CommentEntry {
+  id: string;
+  author: string;
+  createdAt: string;
+  message: string;
+  reactions?: string[];
+}
+
+/**
+ * A top-level comment with its replies, oldest first. `node` is the node the
+ * comment is pinned to, with the path from its page down.
+ */
+export interface CommentThread extends CommentEntry {
+  resolvedAt?: string;
+  node?: { id: string; name?: string; type?: string; breadcrumbs: Breadcrumb[] };
+  replies: CommentEntry[];
+}
+
+export interface NodeLocation {
+  node: SceneNode;
+  ancestors: SceneNode[];
+}
+
+/**
+ * Raised when a comment filter contains an invalid date.
+ */
+export class InvalidCommentFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCommentFilterError';
+  }
+}
+
+function toEntry(comment: FigmaComment): CommentEntry {
+  const entry: CommentEntry = {
+    id: comment.id,
+    author: comment.user?.handle,
+    createdAt: comment.created_at,
+    message: comment.message,
+  };
+  if (comment.reactions?.length) {
+    entry.reactions = comment.reactions.map((reaction) => reaction.emoji);
+  }
+  return entry;
+}
+
+/**
+ * Finds the given nodes in the document together with their ancestors,
+ * ordered from the page down.
+ */
+export function locateNodes(document: DocumentNode, ids: Set<string>): Map<string, NodeLocation> {
+  const found = new Map<string, NodeLocation>();
+  if (ids.size === 0) return found;
+
+  const stack: NodeLocation[] = document.children.map((page) => ({ node: page, ancestors: [] }));
+  while (stack.length > 0 && found.size < ids.size) {
+    const location = stack.pop()!;
+    if (ids.has(location.node.id)) found.set(location.node.id, location);
+    if ('children' in location.node && Array.isArray(location.node.children)) {
+      const ancestors = [...location.ancestors, location.node];
+      for (const child of location.node.children) {
+        stack.push({ node: child, ancestors });
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * The node ids comments are pinned to.
+ */
+export function pinnedNodeIds(comments: FigmaComment[]): Set<string> {
+  return new Set(comments.map((comment) => comment.client_meta?.node_id).filter((id): id is string => Boolean(id)));
+}
+
+function parseDate(value: string | undefined, name: string, endOfDay: boolean): number | undefined {
+  if (value === undefined) return undefined;
+  // A plain date covers the whole day
+  const date = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(value) && endOfDay ? `${value}T23:59:59.999Z` : value);
+  if (Number.isNaN(date)) {
+    throw new InvalidCommentFilterError(`${name} must be an ISO date, got ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Groups comments into threads through parent_id, oldest thread first, and
+ * keeps the threads that match the filter.
+ */
+export function buildThreads(
+  comments: FigmaComment[],
+  filter: CommentFilter,
+  locations: Map<string, NodeLocation>
+): CommentThread[] {
+  const since = parseDate(filter.since, 'since', false);
+  const until = parseDate(filter.until, 'until', true);
+  const author = filter.author?.replace(/^@/, '').toLowerCase();
+
+  const roots = comments.filter((comment) => !comment.parent_id);
+  const replies = new Map<string, FigmaComment[]>();
+  for (const comment of comments) {
+    if (!comment.parent_id) continue;
+    if (!replies.has(comment.parent_id)) replies.set(comment.parent_id, []);
+    replies.get(comment.parent_id)!.push(comment);
+  }
+
+  const byDate = (a: FigmaComment, b: FigmaComment) =>
+    Date.parse(a.created_at) - Date.parse(b.created_at) || a.id.localeCompare(b.id, undefined, { numeric: true });
+  const threads: CommentThread[] = [];
+  for (const root of roots.sort(byDate)) {
+    const thread = [root, ...(replies.get(root.id) ?? []).sort(byDate)];
+    const nodeId = root.client_meta?.node_id;
+    const location = nodeId ? locations.get(nodeId) : undefined;
+
+    if (filter.status === 'resolved' && !root.resolved_at) continue;
+    if (filter.status === 'unresolved' && root.resolved_at) continue;
+    if (author && !thread.some((comment) => comment.user?.handle?.toLowerCase() === author)) continue;
+    if (
+      (since !== undefined || until !== undefined) &&
+      !thread.some((comment) => {
+        const created = Date.parse(comment.created_at);
+        return (since === undefined || created >= since) && (until === undefined || created <= until);
+      })
+    ) {
+      continue;
+    }
+    if (
+      filter.nodeId &&
+      nodeId !== filter.nodeId &&
+      !location?.ancestors.some((ancestor) => ancestor.id === filter.nodeId)
+    ) {
+      continue;
+    }
+
+    threads.push({
+      ...toEntry(root),
+      resolvedAt: root.resolved_at ?? undefined,
+      node: nodeId
+        ? {
+            id: nodeId,
+            name: location?.node.name,
+            type: location?.node.type,
+            breadcrumbs: (location?.ancestors ?? []).map((ancestor) => ({ id: ancestor.id, name: ancestor.name })),
+          }
+        : undefined,
+      replies: thread.slice(1).map(toEntry),
+    });
+  }
+  return threads;
+}
+
+function quote(message: string): string {
+  return message
+    .split('\n')
+    .map((line) => `> ${line}`)
+    .join('\n');
+}
+
+function describeEntry(entry: CommentEntry): string {
+  const reactions = entry.reactions?.length ? ` · ${entry.reactions.join(' ')}` : '';
+  return `**@${entry.author}** · ${entry.createdAt}${reactions}`;
+}
+
+/**
+ * Renders threads as markdown, one section per thread.
+ */
+export function formatThreadsMarkdown(threads: CommentThread[]): string {
+  return threads
+    .map((thread) => {
+      const status = thread.resolvedAt ? `resolved ${thread.resolvedAt}` : 'unresolved';
+      const lines = [`### Thread ${thread.id} (${status})`];
+      if (thread.node) {
+        const path = [...thread.node.breadcrumbs.map((crumb) => crumb.name), thread.node.name ?? '(deleted node)'];
+        lines.push(`On ${path.join(' / ')} \`${thread.node.id}\``);
+      }
+      lines.push('', describeEntry(thread), '', quote(thread.message));
+      for (const reply of thread.replies) {
+        lines.push('', `- ${describeEntry(reply)}`, '', quote(reply.message).replace(/^/gm, '  '));
+      }
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
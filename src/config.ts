@@ -1,43 +1,156 @@
 import fs from 'fs';
+import type { FigmaCredentials, OAuthClientConfig } from './auth.js';
+import type { CacheConfig } from './cache.js';
+import type { HttpConfig } from './http.js';
 
 interface Config {
-  figmaAccessToken: string;
+  credentials?: FigmaCredentials;
+  oauthClient?: OAuthClientConfig;
+  readWrite: boolean; // offer tools that change files, such as posting comments
 }
 
-export function loadConfig(): Config {
+export type Env = { [name: string]: string | undefined };
+
+/**
+ * Environment variables, overridden by the `mcpServers.figma.env` block of
+ * the `--config=` file when one is given.
+ */
+export function loadEnv(): Env {
   const configArg = process.argv.find((arg) => arg.startsWith('--config='));
   if (configArg) {
     const configPath = configArg.split('=')[1];
     try {
       console.debug('[MCP Debug] Loading config from', configPath);
       const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
-      const token = config.mcpServers?.figma?.env?.FIGMA_ACCESS_TOKEN;
-      if (token) {
+      const env = config.mcpServers?.figma?.env;
+      if (env) {
         console.debug('[MCP Debug] Config loaded successfully');
-        return { figmaAccessToken: token };
+        return { ...process.env, ...env };
       }
     } catch (error) {
       console.error('[MCP Error] Failed to load config', error);
     }
   }
+  return process.env;
+}
 
-  const token = process.env.FIGMA_ACCESS_TOKEN;
-  if (!token) {
-    console.error('[MCP Error] FIGMA_ACCESS_TOKEN not found');
-    throw new Error(
-      'FIGMA_ACCESS_TOKEN is required. Provide it via environment variable or config file.'
-    );
+/**
+ * Reads the server's own Figma credentials: an OAuth token from
+ * FIGMA_OAUTH_TOKEN (with FIGMA_REFRESH_TOKEN to refresh it), or a personal
+ * access token from FIGMA_ACCESS_TOKEN. Over HTTP they are optional, since
+ * each session can bring its own. Write tools stay hidden unless the server
+ * is started with `--read-write` or FIGMA_READ_WRITE=true.
+ */
+export function loadConfig(env: Env): Config {
+  const oauthClient =
+    env.FIGMA_OAUTH_CLIENT_ID && env.FIGMA_OAUTH_CLIENT_SECRET
+      ? { clientId: env.FIGMA_OAUTH_CLIENT_ID, clientSecret: env.FIGMA_OAUTH_CLIENT_SECRET }
+      : undefined;
+
+  let credentials: FigmaCredentials | undefined;
+  if (env.FIGMA_OAUTH_TOKEN) {
+    credentials = { type: 'oauth', token: env.FIGMA_OAUTH_TOKEN, refreshToken: env.FIGMA_REFRESH_TOKEN || undefined };
+  } else if (env.FIGMA_ACCESS_TOKEN) {
+    credentials = { type: 'pat', token: env.FIGMA_ACCESS_TOKEN };
   }
 
-  console.debug('[MCP Debug] Using FIGMA_ACCESS_TOKEN from environment');
-  return { figmaAccessToken: token };
+  if (credentials) {
+    console.debug('[MCP Debug] Access token found', {
+      type: credentials.type,
+      token: credentials.token.substring(0, 8) + '...',
+      refreshable: credentials.type === 'oauth' && Boolean(credentials.refreshToken && oauthClient),
+    });
+  } else {
+    console.debug('[MCP Debug] No Figma access token configured');
+  }
+
+  const readWrite = process.argv.includes('--read-write') || /^(1|true)$/i.test(env.FIGMA_READ_WRITE ?? '');
+  console.debug('[MCP Debug] Access mode', readWrite ? 'read-write' : 'read-only');
+  return { credentials, oauthClient, readWrite };
+}
+
+function readNumber(env: Env, name: string, fallback: number): number {
+  const raw = env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    console.error(`[MCP Error] Ignoring invalid ${name}:`, raw);
+    return fallback;
+  }
+  return value;
+}
+
+export function loadCacheConfig(env: Env): CacheConfig {
+  const config: CacheConfig = {
+    maxEntries: readNumber(env, 'FIGMA_CACHE_MAX_ENTRIES', 10),
+    maxSizeMB: readNumber(env, 'FIGMA_CACHE_MAX_MB', 256),
+    ttlSeconds: readNumber(env, 'FIGMA_CACHE_TTL_SECONDS', 60),
+    directory: env.FIGMA_CACHE_DIR || undefined,
+  };
+  console.debug('[MCP Debug] Cache config', config);
+  return config;
+}
+
+export function loadHttpConfig(env: Env): Partial<HttpConfig> {
+  const config: Partial<HttpConfig> = {
+    timeoutMs: readNumber(env, 'FIGMA_HTTP_TIMEOUT_MS', 30000),
+    maxRetries: readNumber(env, 'FIGMA_HTTP_MAX_RETRIES', 3),
+    maxConcurrency: Math.max(1, readNumber(env, 'FIGMA_HTTP_MAX_CONCURRENCY', 4)),
+  };
+  console.debug('[MCP Debug] HTTP config', config);
+  return config;
+}
+
+export type TransportKind = 'stdio' | 'http';
+
+/**
+ * How clients connect. `http` serves Streamable HTTP on /mcp and the legacy
+ * SSE transport on /sse and /messages.
+ */
+export interface TransportConfig {
+  transport: TransportKind;
+  host: string;
+  port: number;
+  authToken?: string;
+  sessionIdleSeconds: number; // close sessions without requests or open streams for this long; 0 never
+}
+
+function readArg(name: string): string | undefined {
+  const arg = process.argv.find((value) => value.startsWith(`--${name}=`));
+  return arg ? arg.substring(name.length + 3) : undefined;
+}
+
+export function loadTransportConfig(env: Env): TransportConfig {
+  const transport = (readArg('transport') || env.MCP_TRANSPORT || 'stdio').toLowerCase();
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unknown transport ${transport}. Use stdio or http.`);
+  }
+
+  const portArg = readArg('port');
+  const port = portArg !== undefined ? Number(portArg) : readNumber(env, 'MCP_PORT', 3000);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port ${portArg}`);
+  }
+
+  const config: TransportConfig = {
+    transport,
+    host: readArg('host') || env.MCP_HOST || '127.0.0.1',
+    port,
+    authToken: env.MCP_AUTH_TOKEN || undefined,
+    sessionIdleSeconds: readNumber(env, 'MCP_SESSION_IDLE_SECONDS', 1800),
+  };
+  console.debug('[MCP Debug] Transport config', { ...config, authToken: config.authToken ? '***' : undefined });
+  return config;
+}
+
+export interface SubscriptionConfig {
+  pollIntervalSeconds: number;
 }
 
-export function getFigmaAccessToken(): string {
-  const { figmaAccessToken } = loadConfig();
-  console.debug(
-    '[MCP Debug] Access token found',
-    figmaAccessToken.substring(0, 8) + '...'
-  );
-  return figmaAccessToken;
+export function loadSubscriptionConfig(env: Env): SubscriptionConfig {
+  const config: SubscriptionConfig = {
+    pollIntervalSeconds: Math.max(5, readNumber(env, 'FIGMA_POLL_INTERVAL_SECONDS', 60)),
+  };
+  console.debug('[MCP Debug] Subscription config', config);
+  return config;
 }
@@ -0,0 +1,126 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+
+const CURSOR_VERSION = 1;
+
+/**
+ * Traversal position encoded into a pagination cursor.
+ */
+export interface CursorState {
+  fileKey: string;
+  fileVersion: string;
+  filterHash: string;
+  stack: number[];
+}
+
+/**
+ * Options that change which nodes a traversal yields. A cursor is only
+ * valid for the exact set of options it was issued with.
+ */
+export interface CursorFilterOptions {
+  nodeTypes?: string[];
+  excludeProps?: string[];
+  maxDepth?: number;
+  summaryLevel?: string;
+  pageIds?: string[];
+  collapseInstances?: boolean;
+  query?: object;
+  rootNodeIds?: string[];
+}
+
+/**
+ * Raised when a cursor is malformed or no longer matches the request.
+ */
+export class InvalidCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+export function hashFilterOptions(options: CursorFilterOptions): string {
+  const normalized = {
+    nodeTypes: options.nodeTypes ? [...options.nodeTypes].sort() : null,
+    excludeProps: options.excludeProps ? [...options.excludeProps].sort() : null,
+    maxDepth: options.maxDepth ?? null,
+    summaryLevel: options.summaryLevel ?? null,
+    pageIds: options.pageIds ? [...options.pageIds].sort() : null,
+    collapseInstances: options.collapseInstances ?? false,
+    query: options.query ?? null,
+    // Roots are streamed in the order given, so their order is significant
+    rootNodeIds: options.rootNodeIds ?? null,
+  };
+  return createHash('sha1')
+    .update(JSON.stringify(normalized))
+    .digest('hex')
+    .substring(0, 12);
+}
+
+export function encodeCursor(state: CursorState): string {
+  const payload = {
+    v: CURSOR_VERSION,
+    k: state.fileKey,
+    fv: state.fileVersion,
+    fh: state.filterHash,
+    s: state.stack,
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+const cursorPayload = z.object({
+  v: z.literal(CURSOR_VERSION),
+  k: z.string(),
+  fv: z.string(),
+  fh: z.string(),
+  s: z.array(z.number().int().min(0)).min(1),
+});
+
+export function decodeCursor(cursor: string): CursorState {
+  let json: unknown;
+  try {
+    json = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new InvalidCursorError('Malformed cursor');
+  }
+
+  const payload = cursorPayload.safeParse(json);
+  if (!payload.success) {
+    throw new InvalidCursorError('Malformed cursor');
+  }
+
+  return {
+    fileKey: payload.data.k,
+    fileVersion: payload.data.fv,
+    filterHash: payload.data.fh,
+    stack: payload.data.s,
+  };
+}
+
+/**
+ * Decodes a cursor and checks that it was issued for the same file,
+ * file version and filter options as the current request.
+ */
+export function verifyCursor(
+  cursor: string,
+  expected: Omit<CursorState, 'stack'>
+): CursorState {
+  const state = decodeCursor(cursor);
+
+  if (state.fileKey !== expected.fileKey) {
+    throw new InvalidCursorError(
+      `Cursor was issued for file ${state.fileKey}, not ${expected.fileKey}`
+    );
+  }
+  if (state.fileVersion !== expected.fileVersion) {
+    throw new InvalidCursorError(
+      `Cursor was issued for file version ${state.fileVersion}, but the file is now at version ${expected.fileVersion}. Restart pagination without a cursor.`
+    );
+  }
+  if (state.filterHash !== expected.filterHash) {
+    throw new InvalidCursorError(
+      'Cursor was issued with different filter options (nodeTypes, excludeProps, depth, pages, root nodes, search query or summary level). Repeat the original options or restart pagination without a cursor.'
+    );
+  }
+
+  return state;
+}
@@ -0,0 +1,269 @@
+import type { DocumentNode, SceneNode } from './types.js';
+
+/**
+ * How diff results are grouped: a flat list, or one group per page or per
+ * top-level frame.
+ */
+export type DiffGrouping = 'none' | 'page' | 'frame';
+
+export type PropertyGroup = 'fills' | 'strokes' | 'effects' | 'text' | 'typography' | 'layout' | 'size' | 'visibility';
+
+export interface NodeRef {
+  id: string;
+  name: string;
+}
+
+export interface PropertyChange {
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * One node that differs between the two versions. Added and removed nodes
+ * are only listed at the top of an added or removed subtree, with the number
+ * of nodes below them in `descendants`.
+ */
+export interface NodeChange {
+  id: string;
+  type: string;
+  name: string;
+  status: 'added' | 'removed' | 'modified';
+  page: NodeRef;
+  frame?: NodeRef;
+  descendants?: number;
+  renamed?: { from: string; to: string };
+  moved?: { fromParent?: NodeRef; toParent?: NodeRef; from?: Position; to?: Position };
+  properties?: { [group in PropertyGroup]?: PropertyChange };
+}
+
+export interface ChangeGroup {
+  page: NodeRef;
+  frame?: NodeRef;
+  changes: NodeChange[];
+}
+
+interface Position {
+  x: number;
+  y: number;
+}
+
+interface IndexedNode {
+  node: SceneNode;
+  parent?: SceneNode;
+  page: SceneNode;
+  frame?: SceneNode; // the top-level frame (or other node) on the page containing this node
+  order: number;
+  descendants: number;
+}
+
+const LAYOUT_FIELDS = [
+  'layoutMode',
+  'layoutWrap',
+  'itemSpacing',
+  'counterAxisSpacing',
+  'paddingLeft',
+  'paddingRight',
+  'paddingTop',
+  'paddingBottom',
+  'primaryAxisAlignItems',
+  'counterAxisAlignItems',
+  'primaryAxisSizingMode',
+  'counterAxisSizingMode',
+  'layoutAlign',
+  'layoutGrow',
+  'layoutPositioning',
+  'layoutSizingHorizontal',
+  'layoutSizingVertical',
+  'constraints',
+];
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function ref(node: SceneNode | undefined): NodeRef | undefined {
+  return node ? { id: node.id, name: node.name } : undefined;
+}
+
+function pick(node: SceneNode, fields: string[]): { [field: string]: unknown } | undefined {
+  const values: { [field: string]: unknown } = {};
+  for (const field of fields) {
+    const value = (node as any)[field];
+    if (value !== undefined) values[field] = value;
+  }
+  return Object.keys(values).length > 0 ? values : undefined;
+}
+
+/**
+ * The values compared for each property group.
+ */
+const PROPERTY_GROUPS: { [group in PropertyGroup]: (node: SceneNode) => unknown } = {
+  fills: (node) => (node as any).fills,
+  strokes: (node) => pick(node, ['strokes', 'strokeWeight', 'strokeAlign', 'strokeDashes']),
+  effects: (node) => (node as any).effects,
+  text: (node) => ('characters' in node ? node.characters : undefined),
+  typography: (node) => pick(node, ['style', 'styleOverrideTable', 'characterStyleOverrides']),
+  layout: (node) => pick(node, LAYOUT_FIELDS),
+  size: (node) => {
+    const box = node.absoluteBoundingBox;
+    return box ? { width: round(box.width), height: round(box.height) } : undefined;
+  },
+  visibility: (node) => ({ visible: node.visible ?? true, opacity: (node as any).opacity ?? 1 }),
+};
+
+function childrenOf(node: SceneNode | DocumentNode): SceneNode[] {
+  return 'children' in node && Array.isArray(node.children) ? node.children : [];
+}
+
+function indexDocument(document: DocumentNode): Map<string, IndexedNode> {
+  const index = new Map<string, IndexedNode>();
+  let order = 0;
+
+  const visit = (node: SceneNode, parent: SceneNode | undefined, page: SceneNode, frame?: SceneNode): number => {
+    const entry: IndexedNode = { node, parent, page, frame, order: order++, descendants: 0 };
+    index.set(node.id, entry);
+    for (const child of childrenOf(node)) {
+      entry.descendants += 1 + visit(child, node, page, frame ?? (node === page ? child : undefined));
+    }
+    return entry.descendants;
+  };
+
+  for (const page of document.children) {
+    visit(page, undefined, page);
+  }
+  return index;
+}
+
+/**
+ * Position relative to the parent, so that moving a frame does not report
+ * every node inside it as moved.
+ */
+function relativePosition(entry: IndexedNode): Position | undefined {
+  const box = entry.node.absoluteBoundingBox;
+  if (!box) return undefined;
+  const parentBox = entry.parent?.absoluteBoundingBox;
+  return {
+    x: round(box.x - (parentBox?.x ?? 0)),
+    y: round(box.y - (parentBox?.y ?? 0)),
+  };
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function location(entry: IndexedNode) {
+  return { page: ref(entry.page)!, frame: entry.frame ? ref(entry.frame) : undefined };
+}
+
+function compareNodes(before: IndexedNode, after: IndexedNode): NodeChange | undefined {
+  const change: NodeChange = {
+    id: after.node.id,
+    type: after.node.type,
+    name: after.node.name,
+    status: 'modified',
+    ...location(after),
+  };
+
+  if (before.node.name !== after.node.name) {
+    change.renamed = { from: before.node.name, to: after.node.name };
+  }
+
+  const fromPosition = relativePosition(before);
+  const toPosition = relativePosition(after);
+  if (before.parent?.id !== after.parent?.id) {
+    change.moved = { fromParent: ref(before.parent), toParent: ref(after.parent), from: fromPosition, to: toPosition };
+  } else if (!same(fromPosition, toPosition)) {
+    change.moved = { from: fromPosition, to: toPosition };
+  }
+
+  const properties: NodeChange['properties'] = {};
+  for (const [group, read] of Object.entries(PROPERTY_GROUPS) as Array<[PropertyGroup, (node: SceneNode) => unknown]>) {
+    const from = read(before.node);
+    const to = read(after.node);
+    if (!same(from, to)) properties[group] = { from, to };
+  }
+  if (Object.keys(properties).length > 0) change.properties = properties;
+
+  return change.renamed || change.moved || change.properties ? change : undefined;
+}
+
+function subtreeChange(entry: IndexedNode, status: 'added' | 'removed'): NodeChange {
+  return {
+    id: entry.node.id,
+    type: entry.node.type,
+    name: entry.node.name,
+    status,
+    ...location(entry),
+    descendants: entry.descendants > 0 ? entry.descendants : undefined,
+  };
+}
+
+/**
+ * Matches the nodes of two versions of a document by id and lists the
+ * differences by page, top-level frame and document order.
+ */
+export function diffDocuments(from: DocumentNode, to: DocumentNode): NodeChange[] {
+  const before = indexDocument(from);
+  const after = indexDocument(to);
+  const pageOrder = new Map<string, number>();
+  to.children.forEach((page, i) => pageOrder.set(page.id, i));
+  from.children.forEach((page, i) => {
+    if (!pageOrder.has(page.id)) pageOrder.set(page.id, to.children.length + i);
+  });
+
+  // Removed nodes sort after the nodes that remain next to them
+  const orderOf = (id: string) => after.get(id)?.order ?? after.size + before.get(id)!.order;
+  const changes: Array<{ change: NodeChange; order: number }> = [];
+  for (const entry of after.values()) {
+    const previous = before.get(entry.node.id);
+    if (!previous) {
+      if (!entry.parent || before.has(entry.parent.id)) {
+        changes.push({ change: subtreeChange(entry, 'added'), order: entry.order });
+      }
+      continue;
+    }
+    const change = compareNodes(previous, entry);
+    if (change) changes.push({ change, order: entry.order });
+  }
+  for (const entry of before.values()) {
+    if (after.has(entry.node.id)) continue;
+    if (!entry.parent || after.has(entry.parent.id)) {
+      changes.push({ change: subtreeChange(entry, 'removed'), order: orderOf(entry.node.id) });
+    }
+  }
+
+  // Page, then top-level frame, then document order, so each frame's changes stay together
+  const sortKey = ({ change, order }: { change: NodeChange; order: number }) => [
+    pageOrder.get(change.page.id)!,
+    change.frame ? orderOf(change.frame.id) : -1,
+    order,
+  ];
+  return changes
+    .map((item) => ({ item, key: sortKey(item) }))
+    .sort((a, b) => a.key[0] - b.key[0] || a.key[1] - b.key[1] || a.key[2] - b.key[2])
+    .map(({ item }) => item.change);
+}
+
+/**
+ * Groups one page of changes by page or by top-level frame, keeping their
+ * order. Changes to pages and top-level frames themselves head their group.
+ */
+export function groupChanges(changes: NodeChange[], grouping: DiffGrouping): ChangeGroup[] | NodeChange[] {
+  if (grouping === 'none') return changes;
+
+  const groups: ChangeGroup[] = [];
+  const byKey = new Map<string, ChangeGroup>();
+  for (const change of changes) {
+    const frame = grouping === 'frame' ? change.frame : undefined;
+    const key = `${change.page.id}/${frame?.id ?? ''}`;
+    let group = byKey.get(key);
+    if (!group) {
+      group = { page: change.page, frame, changes: [] };
+      byKey.set(key, group);
+      groups.push(group);
+    }
+    group.changes.push(change);
+  }
+  return groups;
+}
@@ -0,0 +1,65 @@
+/**
+ * Base class for errors returned by the Figma API.
+ */
+export class FigmaApiError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'FigmaApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * The access token is missing, invalid or lacks access to the resource.
+ */
+export class FigmaAuthError extends FigmaApiError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'FigmaAuthError';
+  }
+}
+
+/**
+ * The requested file, node or resource does not exist.
+ */
+export class FigmaNotFoundError extends FigmaApiError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'FigmaNotFoundError';
+  }
+}
+
+/**
+ * The request was rate limited and retries were exhausted.
+ */
+export class FigmaRateLimitError extends FigmaApiError {
+  retryAfterSeconds?: number;
+
+  constructor(message: string, retryAfterSeconds?: number) {
+    super(message, 429);
+    this.name = 'FigmaRateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * The requested data is too large for Figma to return in one response.
+ */
+export class FigmaTooLargeError extends FigmaApiError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'FigmaTooLargeError';
+  }
+}
+
+/**
+ * The request did not complete within the configured timeout.
+ */
+export class FigmaTimeoutError extends FigmaApiError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FigmaTimeoutError';
+  }
+}
@@ -0,0 +1,256 @@
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import {
+  FigmaApiError,
+  FigmaAuthError,
+  FigmaNotFoundError,
+  FigmaRateLimitError,
+  FigmaTimeoutError,
+  FigmaTooLargeError,
+} from './errors.js';
+import type { FigmaAuth } from './auth.js';
+
+export interface HttpConfig {
+  timeoutMs: number;
+  maxRetries: number;
+  maxConcurrency: number;
+  baseDelayMs: number;
+  maxDelayMs: number; // longer Retry-After values fail immediately instead of waiting
+}
+
+export interface RequestOptions {
+  params?: { [key: string]: any };
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface DownloadedFile {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface RemoteFileInfo {
+  contentType?: string;
+  sizeBytes?: number;
+}
+
+export const DEFAULT_HTTP_CONFIG: HttpConfig = {
+  timeoutMs: 30000,
+  maxRetries: 3,
+  maxConcurrency: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 60000,
+};
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new axios.CanceledError('Request aborted'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new axios.CanceledError('Request aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(String(value));
+  if (!Number.isNaN(date)) return Math.max(0, (date - Date.now()) / 1000);
+  return undefined;
+}
+
+function isTimeout(error: AxiosError): boolean {
+  return error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+}
+
+function isRetryable(error: AxiosError, method: string): boolean {
+  const status = error.response?.status;
+  // A write that failed or timed out may still have been applied, so only
+  // writes Figma rejected outright with a 429 are repeated
+  if (method !== 'GET' && method !== 'HEAD') return status === 429;
+  if (status === undefined) return !axios.isCancel(error); // network errors and timeouts
+  return status === 429 || status >= 500;
+}
+
+function toFigmaError(error: AxiosError<any>, url: string): FigmaApiError {
+  const status = error.response?.status;
+  const detail = error.response?.data?.message || error.response?.data?.err || error.message;
+  const message = `Figma API error (${status ?? error.code ?? 'network'}) for ${url}: ${detail}`;
+
+  if (status === 401 || status === 403) return new FigmaAuthError(message, status);
+  if (status === 404) return new FigmaNotFoundError(message, status);
+  if (status === 429) {
+    return new FigmaRateLimitError(message, parseRetryAfter(error.response?.headers['retry-after']));
+  }
+  if (status === 413 || (status === 400 && /too large|too big/i.test(String(detail)))) {
+    return new FigmaTooLargeError(message, status);
+  }
+  if (status === undefined && isTimeout(error)) return new FigmaTimeoutError(message);
+  return new FigmaApiError(message, status);
+}
+
+/**
+ * Shared request layer for the Figma REST API: limits concurrency, applies
+ * timeouts, retries rate-limited and failed requests with backoff, and
+ * converts failures into typed errors.
+ */
+export class FigmaHttpClient {
+  private client: AxiosInstance;
+  private downloader: AxiosInstance;
+  private config: HttpConfig;
+  private auth?: FigmaAuth;
+  private active: number;
+  private waiting: Array<() => void>;
+
+  constructor(client: AxiosInstance, config: Partial<HttpConfig> = {}, auth?: FigmaAuth) {
+    this.client = client;
+    this.auth = auth;
+    this.downloader = axios.create();
+    this.config = { ...DEFAULT_HTTP_CONFIG, ...config };
+    this.active = 0;
+    this.waiting = [];
+  }
+
+  private async acquire(signal?: AbortSignal): Promise<void> {
+    if (this.active < this.config.maxConcurrency) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.waiting = this.waiting.filter((next) => next !== start);
+        reject(new axios.CanceledError('Request aborted'));
+      };
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        this.active++;
+        resolve();
+      };
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiting.push(start);
+    });
+  }
+
+  private release() {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+
+  private retryDelayMs(error: AxiosError, attempt: number): number {
+    const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+    if (retryAfter !== undefined) return retryAfter * 1000;
+    const backoff = this.config.baseDelayMs * 2 ** attempt;
+    return Math.min(backoff + Math.random() * this.config.baseDelayMs, this.config.maxDelayMs);
+  }
+
+  private async execute<T>(
+    client: AxiosInstance,
+    url: string,
+    options: RequestOptions,
+    config: AxiosRequestConfig = {}
+  ): Promise<AxiosResponse<T>> {
+    // Only API requests are signed; downloads go to URLs outside the Figma API
+    const signed = client === this.client && this.auth !== undefined;
+    let refreshed = false;
+    for (let attempt = 0; ; attempt++) {
+      let error: unknown;
+      let authHeaders: { [name: string]: string } | undefined;
+      await this.acquire(options.signal);
+      try {
+        authHeaders = signed ? await this.auth!.headers() : undefined;
+        return await client.request<T>({
+          method: 'GET',
+          ...config,
+          headers: { ...config.headers, ...authHeaders },
+          url,
+          params: options.params,
+          signal: options.signal,
+          timeout: options.timeoutMs ?? this.config.timeoutMs,
+        });
+      } catch (requestError) {
+        error = requestError;
+      } finally {
+        this.release();
+      }
+
+      if (axios.isCancel(error) || !axios.isAxiosError(error)) {
+        throw error;
+      }
+
+      if (signed && error.response?.status === 401 && !refreshed && this.auth!.canRefresh()) {
+        console.debug(`[MCP Debug] Access token rejected for ${url}, refreshing`);
+        await this.auth!.refresh(authHeaders);
+        refreshed = true;
+        attempt--;
+        continue;
+      }
+
+      const delay = this.retryDelayMs(error, attempt);
+      if (!isRetryable(error, config.method ?? 'GET') || attempt >= this.config.maxRetries || delay > this.config.maxDelayMs) {
+        const figmaError = toFigmaError(error, url);
+        console.error('[MCP Error]', figmaError.message);
+        throw figmaError;
+      }
+
+      console.debug(
+        `[MCP Debug] Retrying ${url} in ${Math.round(delay)}ms`,
+        `(attempt ${attempt + 1} of ${this.config.maxRetries}, status ${error.response?.status ?? error.code})`
+      );
+      await sleep(delay, options.signal);
+    }
+  }
+
+  async get<T = any>(url: string, options: RequestOptions = {}): Promise<T> {
+    const response = await this.execute<T>(this.client, url, options);
+    return response.data;
+  }
+
+  async post<T = any>(url: string, body: unknown, options: RequestOptions = {}): Promise<T> {
+    const response = await this.execute<T>(this.client, url, options, { method: 'POST', data: body });
+    return response.data;
+  }
+
+  async delete<T = any>(url: string, options: RequestOptions = {}): Promise<T> {
+    const response = await this.execute<T>(this.client, url, options, { method: 'DELETE' });
+    return response.data;
+  }
+
+  /**
+   * Downloads an absolute URL such as a rendered image. These URLs point
+   * outside the Figma API, so the access token is not sent along.
+   */
+  async download(url: string, options: RequestOptions = {}): Promise<DownloadedFile> {
+    const response = await this.execute<ArrayBuffer>(this.downloader, url, options, {
+      responseType: 'arraybuffer',
+    });
+    return {
+      data: Buffer.from(response.data),
+      contentType: String(response.headers['content-type'] || 'application/octet-stream'),
+    };
+  }
+
+  /**
+   * Reads the type and size of an absolute URL without downloading it.
+   */
+  async inspect(url: string, options: RequestOptions = {}): Promise<RemoteFileInfo> {
+    const response = await this.execute(this.downloader, url, options, { method: 'HEAD' });
+    const length = Number(response.headers['content-length']);
+    return {
+      contentType: response.headers['content-type'] ? String(response.headers['content-type']) : undefined,
+      sizeBytes: Number.isFinite(length) ? length : undefined,
+    };
+  }
+}
@@ -0,0 +1,152 @@
+import type { ExportSetting, Paint, SceneNode } from './types.js';
+
+export type ImageFormat = 'png' | 'jpg' | 'svg' | 'pdf';
+
+export interface ImageExportOptions {
+  format: ImageFormat;
+  scale: number;
+  svgIncludeId?: boolean;
+  svgSimplifyStroke?: boolean;
+  svgOutlineText?: boolean;
+  useExportSettings?: boolean;
+}
+
+/**
+ * A set of nodes that can be rendered with a single /images request.
+ */
+export interface ImageRenderGroup {
+  format: ImageFormat;
+  scale: number;
+  suffix?: string;
+  ids: string[];
+}
+
+/**
+ * A rendered node image. `url` is null when Figma could not render the node.
+ */
+export interface ExportedImage {
+  nodeId: string;
+  format: ImageFormat;
+  scale: number;
+  suffix?: string;
+  url: string | null;
+}
+
+// Range accepted by the scale parameter of GET /v1/images
+const MIN_SCALE = 0.01;
+const MAX_SCALE = 4;
+
+export const IMAGE_MIME_TYPES: { [format in ImageFormat]: string } = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+};
+
+function clampScale(scale: number): number {
+  return Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+}
+
+function settingScale(setting: ExportSetting, node: SceneNode): number {
+  const { type, value } = setting.constraint;
+  const box = node.absoluteBoundingBox;
+  if (type === 'WIDTH' && box?.width) return value / box.width;
+  if (type === 'HEIGHT' && box?.height) return value / box.height;
+  return type === 'SCALE' ? value : 1;
+}
+
+/**
+ * Groups node ids by the format and scale they should be rendered at. When
+ * `useExportSettings` is set, each export setting on a node becomes its own
+ * render; nodes without export settings use the requested format and scale.
+ */
+export function planImageRenders(
+  ids: string[],
+  nodes: { [id: string]: SceneNode | undefined },
+  options: ImageExportOptions
+): ImageRenderGroup[] {
+  const groups = new Map<string, ImageRenderGroup>();
+  const add = (id: string, format: ImageFormat, scale: number, suffix?: string) => {
+    const key = `${format}:${scale}:${suffix ?? ''}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { format, scale, suffix, ids: [] };
+      groups.set(key, group);
+    }
+    if (!group.ids.includes(id)) {
+      group.ids.push(id);
+    }
+  };
+
+  for (const id of ids) {
+    const node = nodes[id];
+    const settings = node && 'exportSettings' in node ? node.exportSettings : undefined;
+    if (options.useExportSettings && node && settings?.length) {
+      for (const setting of settings) {
+        const format = setting.format.toLowerCase() as ImageFormat;
+        add(id, format, clampScale(settingScale(setting, node)), setting.suffix || undefined);
+      }
+    } else {
+      add(id, options.format, clampScale(options.scale));
+    }
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * An image fill used by one or more nodes, resolved to its download URL.
+ */
+export interface ImageFillUsage {
+  url: string | null;
+  nodeIds: string[];
+  contentType?: string;
+  sizeBytes?: number;
+}
+
+const PAINT_PROPERTIES = ['fills', 'strokes', 'background'];
+
+function paintsOf(node: SceneNode): Paint[] {
+  const paints: Paint[] = [];
+  for (const prop of PAINT_PROPERTIES) {
+    const value = (node as any)[prop];
+    if (Array.isArray(value)) {
+      paints.push(...value);
+    }
+  }
+  if (node.type === 'TEXT' && Array.isArray(node.style?.fills)) {
+    paints.push(...node.style.fills);
+  }
+  return paints;
+}
+
+/**
+ * Collects every imageRef used by the given nodes, and by default their
+ * descendants, mapped to the ids of the nodes that use it.
+ */
+export function collectImageRefs(nodes: SceneNode[], includeDescendants = true): Map<string, string[]> {
+  const refs = new Map<string, string[]>();
+  const visited = new Set<string>();
+  const stack = [...nodes];
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (!node || visited.has(node.id)) continue;
+    visited.add(node.id);
+
+    for (const paint of paintsOf(node)) {
+      if (paint.type !== 'IMAGE' || !paint.imageRef) continue;
+      const users = refs.get(paint.imageRef) ?? [];
+      if (!users.includes(node.id)) {
+        users.push(node.id);
+      }
+      refs.set(paint.imageRef, users);
+    }
+
+    if (includeDescendants && 'children' in node && Array.isArray(node.children)) {
+      stack.push(...node.children);
+    }
+  }
+
+  return refs;
+}
@@ -4,45 +4,132 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
-  Request,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { ChunkedFigmaClient } from './client.js';
-import { getFigmaAccessToken } from './config.js';
-
-interface ListFilesArgs {
-  project_id?: string;
-  team_id?: string;
-}
-
-interface FileKeyArgs {
-  file_key: string;
-}
-
-interface FileNodesArgs extends FileKeyArgs {
-  ids: string[];
-}
+import { FigmaAuth, FigmaCredentials, OAuthClientConfig } from './auth.js';
+import {
+  Env,
+  loadCacheConfig,
+  loadConfig,
+  loadEnv,
+  loadHttpConfig,
+  loadSubscriptionConfig,
+  loadTransportConfig,
+} from './config.js';
+import { FileCache } from './cache.js';
+import { InvalidCommentFilterError } from './comments.js';
+import type { HttpConfig } from './http.js';
+import { InvalidCursorError } from './cursor.js';
+import { IMAGE_MIME_TYPES, collectImageRefs } from './images.js';
+import { getPrompt, listPrompts } from './prompts.js';
+import {
+  InvalidResourceUriError,
+  RESOURCE_TEMPLATES,
+  ResourceSubscriptions,
+  listResources,
+  readResource,
+} from './resources.js';
+import { InvalidQueryError } from './search.js';
+import { ToolArgs, isWriteTool, listTools, parseArguments } from './tools.js';
+import { startHttpTransport } from './transport.js';
+import {
+  FigmaApiError,
+  FigmaAuthError,
+  FigmaNotFoundError,
+  FigmaRateLimitError,
+  FigmaTimeoutError,
+  FigmaTooLargeError,
+} from './errors.js';
 
-interface GetFileDataArgs {
-  file_key: string;
-  pageSize?: number;
-  maxMemoryMB?: number;
-  nodeTypes?: string[];
-  cursor?: string;
-  depth?: number;
-  maxResponseSize?: number;
-  excludeProps?: string[];
-  summarizeNodes?: boolean;
+function toMcpError(error: unknown): McpError | undefined {
+  if (error instanceof McpError) return error;
+  if (
+    error instanceof InvalidCursorError ||
+    error instanceof InvalidQueryError ||
+    error instanceof InvalidResourceUriError ||
+    error instanceof InvalidCommentFilterError
+  ) {
+    return new McpError(ErrorCode.InvalidParams, error.message);
+  }
+  if (error instanceof FigmaAuthError) {
+    return new McpError(
+      ErrorCode.InvalidRequest,
+      `${error.message}. Check that the Figma access token is valid and has access to this file.`
+    );
+  }
+  if (error instanceof FigmaNotFoundError) {
+    return new McpError(ErrorCode.InvalidParams, error.message);
+  }
+  if (error instanceof FigmaTooLargeError) {
+    return new McpError(
+      ErrorCode.InvalidParams,
+      `${error.message}. Try a smaller depth, fewer ids or a node type filter.`
+    );
+  }
+  if (error instanceof FigmaRateLimitError) {
+    return new McpError(ErrorCode.InternalError, error.message, {
+      retryAfterSeconds: error.retryAfterSeconds,
+    });
+  }
+  if (error instanceof FigmaTimeoutError) {
+    return new McpError(ErrorCode.RequestTimeout, error.message);
+  }
+  return undefined;
 }
 
 class FigmaMCPServer {
-  private server: Server;
-  private figmaClient: ChunkedFigmaClient;
+  private figmaClient?: ChunkedFigmaClient;
+  private cache: FileCache;
+  private httpConfig: Partial<HttpConfig>;
+  private oauthClient?: OAuthClientConfig;
+  private pollIntervalMs: number;
+  private readWrite: boolean;
+  private env: Env;
 
   constructor() {
     console.debug('[MCP Debug] Initializing Figma MCP server');
-    this.server = new Server(
+    this.env = loadEnv();
+    const { credentials, oauthClient, readWrite } = loadConfig(this.env);
+    this.readWrite = readWrite;
+    this.cache = new FileCache(loadCacheConfig(this.env));
+    this.httpConfig = loadHttpConfig(this.env);
+    this.oauthClient = oauthClient;
+    this.pollIntervalMs = loadSubscriptionConfig(this.env).pollIntervalSeconds * 1000;
+    if (credentials) {
+      this.figmaClient = new ChunkedFigmaClient(
+        new FigmaAuth(credentials, 'config', oauthClient),
+        this.cache,
+        {},
+        this.httpConfig
+      );
+    }
+  }
+
+  /**
+   * Builds a Server with every handler registered. Stdio uses one; the HTTP
+   * transport creates one per session, all sharing the file cache. Sessions
+   * that bring their own credentials get their own Figma client.
+   */
+  private createServer(credentials?: FigmaCredentials): Server {
+    const figmaClient = credentials
+      ? new ChunkedFigmaClient(new FigmaAuth(credentials, 'session', this.oauthClient), this.cache, {}, this.httpConfig)
+      : this.figmaClient;
+    if (!figmaClient) {
+      throw new FigmaAuthError(
+        'No Figma credentials. Send X-Figma-Token or X-Figma-OAuth-Token with the session, or set FIGMA_ACCESS_TOKEN on the server.'
+      );
+    }
+
+    const server = new Server(
       {
         name: 'figma-mcp-chunked',
         version: '0.1.0',
@@ -50,331 +137,463 @@ class FigmaMCPServer {
       {
         capabilities: {
           tools: {},
+          resources: { subscribe: true },
+          prompts: {},
         },
       }
     );
+    this.setupToolHandlers(server, figmaClient);
+    this.setupResourceHandlers(server, figmaClient);
+    this.setupPromptHandlers(server, figmaClient);
 
-    this.figmaClient = new ChunkedFigmaClient(getFigmaAccessToken());
-    this.setupToolHandlers();
-    
-    this.server.onerror = (error: Error) => {
+    server.onerror = (error: Error) => {
       console.error('[MCP Error]', {
         name: error.name,
         message: error.message,
         stack: error.stack,
       });
     };
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
+    return server;
   }
 
-  private setupToolHandlers() {
+  private setupToolHandlers(server: Server, figmaClient: ChunkedFigmaClient) {
     console.debug('[MCP Debug] Setting up tool handlers');
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: [
-        {
-          name: 'get_file_data',
-          description: 'Get Figma file data with chunking and pagination',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              file_key: {
-                type: 'string',
-                description: 'Figma file key'
-              },
-              pageSize: {
-                type: 'number',
-                description: 'Number of nodes per page',
-                minimum: 1,
-                maximum: 1000
-              },
-              maxMemoryMB: {
-                type: 'number',
-                description: 'Maximum memory usage in MB',
-                minimum: 128,
-                maximum: 2048
-              },
-              nodeTypes: {
-                type: 'array',
-                items: {
-                  type: 'string',
-                  enum: [
-                    'FRAME',
-                    'GROUP',
-                    'VECTOR',
-                    'BOOLEAN_OPERATION',
-                    'STAR',
-                    'LINE',
-                    'TEXT',
-                    'COMPONENT',
-                    'INSTANCE'
-                  ]
-                },
-                description: 'Filter nodes by type'
-              },
-              cursor: {
-                type: 'string',
-                description: 'Pagination cursor for continuing from a previous request'
-              },
-              depth: {
-                type: 'number',
-                description: 'Maximum depth to traverse in the node tree',
-                minimum: 1
-              },
-              maxResponseSize: {
-                type: 'number',
-                description: 'Maximum response size in MB (defaults to 50)',
-                minimum: 1,
-                maximum: 100
-              },
-              excludeProps: {
-                type: 'array',
-                items: {
-                  type: 'string'
-                },
-                description: 'Properties to exclude from node data'
-              },
-              summarizeNodes: {
-                type: 'boolean',
-                description: 'Return only essential node properties to reduce response size'
-              }
-            },
-            required: ['file_key']
-          }
-        },
-        {
-          name: 'list_files',
-          description: 'List files in a project or team',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              project_id: {
-                type: 'string',
-                description: 'Project ID to list files from'
-              },
-              team_id: {
-                type: 'string',
-                description: 'Team ID to list files from'
-              }
-            }
-          }
-        },
-        {
-          name: 'get_file_versions',
-          description: 'Get version history of a Figma file',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              file_key: {
-                type: 'string',
-                description: 'Figma file key'
-              }
-            },
-            required: ['file_key']
-          }
-        },
-        {
-          name: 'get_file_comments',
-          description: 'Get comments on a Figma file',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              file_key: {
-                type: 'string',
-                description: 'Figma file key'
-              }
-            },
-            required: ['file_key']
-          }
-        },
-        {
-          name: 'get_components',
-          description: 'Get components from a Figma file',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              file_key: {
-                type: 'string',
-                description: 'Figma file key'
-              }
-            },
-            required: ['file_key']
-          }
-        },
-        {
-          name: 'get_styles',
-          description: 'Get styles from a Figma file',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              file_key: {
-                type: 'string',
-                description: 'Figma file key'
-              }
-            },
-            required: ['file_key']
-          }
-        },
-        {
-          name: 'get_file_nodes',
-          description: 'Get specific nodes from a Figma file',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              file_key: {
-                type: 'string',
-                description: 'Figma file key'
-              },
-              ids: {
-                type: 'array',
-                items: {
-                  type: 'string'
-                },
-                description: 'Array of node IDs to retrieve'
-              }
-            },
-            required: ['file_key', 'ids']
-          }
-        }
-      ]
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: listTools(this.readWrite),
     }));
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { signal } = extra;
       console.debug('[MCP Debug] Request', {
         tool: request.params.name,
         arguments: request.params.arguments,
       });
 
       try {
+        if (isWriteTool(request.params.name) && !this.readWrite) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `${request.params.name} changes the file and is disabled. Start the server with --read-write or FIGMA_READ_WRITE=true to enable it.`
+          );
+        }
+
         switch (request.params.name) {
           case 'get_file_data': {
-            const args = request.params.arguments as unknown as GetFileDataArgs;
-            if (!args.file_key) {
-              throw new McpError(ErrorCode.InvalidParams, 'file_key is required');
-            }
+            const args = parseArguments('get_file_data', request.params.arguments);
+            const rootNodeIds =
+              args.root_node_id === undefined || Array.isArray(args.root_node_id)
+                ? args.root_node_id
+                : [args.root_node_id];
+            return this.getFileData(figmaClient, args, rootNodeIds, signal);
+          }
 
-            console.debug('[MCP Debug] Fetching file data with chunking', {
+          case 'get_file_outline': {
+            const args = parseArguments('get_file_outline', request.params.arguments);
+            console.debug('[MCP Debug] Fetching file outline', {
               fileKey: args.file_key,
-              pageSize: args.pageSize,
-              maxMemoryMB: args.maxMemoryMB,
-              nodeTypes: args.nodeTypes,
-              maxResponseSize: args.maxResponseSize,
-              excludeProps: args.excludeProps,
-              summarizeNodes: args.summarizeNodes
+              pages: args.pages,
+              depth: args.depth,
+              format: args.format,
             });
-
-            const result = await this.figmaClient.getFileInfoChunked(
+            const { outline, ...page } = await figmaClient.getFileOutline(
               args.file_key,
-              args.cursor,
-              args.depth,
               {
+                pages: args.pages,
+                depth: args.depth,
+                format: args.format,
+                collapseInstances: args.collapseInstances,
+                cursor: args.cursor,
                 pageSize: args.pageSize,
-                maxMemoryMB: args.maxMemoryMB,
-                nodeTypes: args.nodeTypes,
-                maxResponseSize: args.maxResponseSize,
-                excludeProps: args.excludeProps,
-                summarizeNodes: args.summarizeNodes
-              }
+                maxTokens: args.maxTokens,
+              },
+              signal
+            );
+            return {
+              content: typeof outline === 'string'
+                ? [
+                    { type: 'text', text: outline },
+                    { type: 'text', text: JSON.stringify(page, null, 2) },
+                  ]
+                : [{ type: 'text', text: JSON.stringify({ outline, ...page }, null, 2) }],
+            };
+          }
+
+          case 'search_nodes': {
+            const { file_key, cursor, depth, pageSize, maxTokens, ...query } = parseArguments(
+              'search_nodes',
+              request.params.arguments
+            );
+            console.debug('[MCP Debug] Searching nodes', {
+              fileKey: file_key,
+              query,
+              depth,
+            });
+            const data = await figmaClient.searchNodes(
+              file_key,
+              query,
+              { cursor, depth, pageSize, maxTokens },
+              signal
             );
+            return {
+              content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+            };
+          }
 
+          case 'list_team_projects': {
+            const args = parseArguments('list_team_projects', request.params.arguments);
+            console.debug('[MCP Debug] Listing team projects', { teamId: args.team_id });
+            const data = await figmaClient.listTeamProjects(
+              args.team_id,
+              { cursor: args.cursor, pageSize: args.pageSize },
+              signal
+            );
             return {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify({
-                    nodes: result.nodes,
-                    memoryUsage: result.memoryUsage,
-                    nextCursor: result.nextCursor,
-                    hasMore: result.hasMore
-                  }, null, 2)
-                }
-              ]
+              content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+            };
+          }
+
+          case 'list_project_files': {
+            const args = parseArguments('list_project_files', request.params.arguments);
+            console.debug('[MCP Debug] Listing project files', { projectId: args.project_id });
+            const data = await figmaClient.listProjectFiles(
+              args.project_id,
+              { branchData: args.branch_data, cursor: args.cursor, pageSize: args.pageSize },
+              signal
+            );
+            return {
+              content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
             };
           }
 
-          case 'list_files': {
-            const args = request.params.arguments as unknown as ListFilesArgs;
-            console.debug('[MCP Debug] Listing files', args);
-            const data = await this.figmaClient.listFiles(args);
+          case 'find_file': {
+            const args = parseArguments('find_file', request.params.arguments);
+            console.debug('[MCP Debug] Finding files', { teamId: args.team_id, query: args.query });
+            const data = await figmaClient.findFiles(
+              args.team_id,
+              args.query,
+              { cursor: args.cursor, pageSize: args.pageSize },
+              signal
+            );
             return {
               content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
             };
           }
 
           case 'get_file_versions': {
-            const args = request.params.arguments as unknown as FileKeyArgs;
-            if (!args.file_key) {
-              throw new McpError(ErrorCode.InvalidParams, 'file_key is required');
-            }
+            const args = parseArguments('get_file_versions', request.params.arguments);
             console.debug('[MCP Debug] Fetching file versions', {
               fileKey: args.file_key,
             });
-            const data = await this.figmaClient.getFileVersions(args.file_key);
+            const data = await figmaClient.getFileVersions(args.file_key, signal);
+            return {
+              content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+            };
+          }
+
+          case 'diff_file_versions': {
+            const args = parseArguments('diff_file_versions', request.params.arguments);
+            console.debug('[MCP Debug] Comparing file versions', {
+              fileKey: args.file_key,
+              fromVersion: args.from_version,
+              toVersion: args.to_version,
+              groupBy: args.groupBy,
+            });
+            const data = await figmaClient.diffFileVersions(
+              args.file_key,
+              args.from_version,
+              args.to_version,
+              { cursor: args.cursor, groupBy: args.groupBy, pageSize: args.pageSize, maxTokens: args.maxTokens },
+              signal
+            );
             return {
               content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
             };
           }
 
           case 'get_file_comments': {
-            const args = request.params.arguments as unknown as FileKeyArgs;
-            if (!args.file_key) {
-              throw new McpError(ErrorCode.InvalidParams, 'file_key is required');
-            }
+            const args = parseArguments('get_file_comments', request.params.arguments);
+            const filter = {
+              status: args.status,
+              author: args.author,
+              since: args.since,
+              until: args.until,
+              nodeId: args.node_id,
+            };
             console.debug('[MCP Debug] Fetching file comments', {
               fileKey: args.file_key,
+              ...filter,
             });
-            const data = await this.figmaClient.getFileComments(args.file_key);
+            const { threads, ...page } = await figmaClient.getFileComments(
+              args.file_key,
+              {
+                filter,
+                format: args.format,
+                cursor: args.cursor,
+                pageSize: args.pageSize,
+                maxTokens: args.maxTokens,
+              },
+              signal
+            );
             return {
-              content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+              content: typeof threads === 'string'
+                ? [
+                    { type: 'text', text: threads },
+                    { type: 'text', text: JSON.stringify(page, null, 2) },
+                  ]
+                : [{ type: 'text', text: JSON.stringify({ threads, ...page }, null, 2) }],
             };
           }
 
           case 'get_components': {
-            const args = request.params.arguments as unknown as FileKeyArgs;
-            if (!args.file_key) {
-              throw new McpError(ErrorCode.InvalidParams, 'file_key is required');
-            }
+            const args = parseArguments('get_components', request.params.arguments);
             console.debug('[MCP Debug] Fetching components', {
               fileKey: args.file_key,
             });
-            const data = await this.figmaClient.getComponents(args.file_key);
+            const data = await figmaClient.getComponents(args.file_key, signal);
             return {
               content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
             };
           }
 
           case 'get_styles': {
-            const args = request.params.arguments as unknown as FileKeyArgs;
-            if (!args.file_key) {
-              throw new McpError(ErrorCode.InvalidParams, 'file_key is required');
-            }
+            const args = parseArguments('get_styles', request.params.arguments);
             console.debug('[MCP Debug] Fetching styles', {
               fileKey: args.file_key,
             });
-            const data = await this.figmaClient.getStyles(args.file_key);
+            const data = await figmaClient.getStyles(args.file_key, signal);
+            return {
+              content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+            };
+          }
+
+          case 'get_team_components': {
+            const args = parseArguments('get_team_components', request.params.arguments);
+            console.debug('[MCP Debug] Fetching team components', { teamId: args.team_id });
+            const data = await figmaClient.getTeamComponents(
+              args.team_id,
+              { cursor: args.cursor, pageSize: args.pageSize, groupBySet: args.groupBySet },
+              signal
+            );
+            return {
+              content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+            };
+          }
+
+          case 'get_team_component_sets': {
+            const args = parseArguments('get_team_component_sets', request.params.arguments);
+            console.debug('[MCP Debug] Fetching team component sets', { teamId: args.team_id });
+            const data = await figmaClient.getTeamComponentSets(
+              args.team_id,
+              { cursor: args.cursor, pageSize: args.pageSize },
+              signal
+            );
+            return {
+              content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+            };
+          }
+
+          case 'get_team_styles': {
+            const args = parseArguments('get_team_styles', request.params.arguments);
+            console.debug('[MCP Debug] Fetching team styles', { teamId: args.team_id });
+            const data = await figmaClient.getTeamStyles(
+              args.team_id,
+              { cursor: args.cursor, pageSize: args.pageSize },
+              signal
+            );
+            return {
+              content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+            };
+          }
+
+          case 'get_component': {
+            const args = parseArguments('get_component', request.params.arguments);
+            console.debug('[MCP Debug] Fetching component', { key: args.key });
+            const data = await figmaClient.getComponent(args.key, signal);
             return {
               content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
             };
           }
 
           case 'get_file_nodes': {
-            const args = request.params.arguments as unknown as FileNodesArgs;
-            if (!args.file_key) {
-              throw new McpError(ErrorCode.InvalidParams, 'file_key is required');
-            }
-            if (!args.ids || !Array.isArray(args.ids) || args.ids.length === 0) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                'ids array is required and must not be empty'
-              );
-            }
-            console.debug('[MCP Debug] Fetching file nodes', {
+            const args = parseArguments('get_file_nodes', request.params.arguments);
+            return this.getFileData(figmaClient, args, args.ids, signal);
+          }
+
+          case 'get_image_fills': {
+            const args = parseArguments('get_image_fills', request.params.arguments);
+            console.debug('[MCP Debug] Fetching image fills', {
+              fileKey: args.file_key,
+              imageRefs: args.imageRefs,
+              includeDetails: args.includeDetails,
+            });
+            const imageFills = await figmaClient.getImageFills(
+              args.file_key,
+              { imageRefs: args.imageRefs, includeDetails: args.includeDetails },
+              signal
+            );
+            return {
+              content: [{ type: 'text', text: JSON.stringify({ imageFills }, null, 2) }],
+            };
+          }
+
+          case 'export_node_images': {
+            const args = parseArguments('export_node_images', request.params.arguments);
+            const { format, scale } = args;
+            console.debug('[MCP Debug] Exporting node images', {
               fileKey: args.file_key,
               ids: args.ids,
+              format,
+              scale,
+              useExportSettings: args.useExportSettings,
+              download: args.download,
+            });
+
+            const images = await figmaClient.exportNodeImages(
+              args.file_key,
+              args.ids,
+              {
+                format,
+                scale,
+                svgIncludeId: args.svgIncludeId,
+                svgSimplifyStroke: args.svgSimplifyStroke,
+                svgOutlineText: args.svgOutlineText,
+                useExportSettings: args.useExportSettings,
+              },
+              signal
+            );
+
+            const content: any[] = [{ type: 'text', text: JSON.stringify({ images }, null, 2) }];
+            if (args.download) {
+              for (const image of images) {
+                if (!image.url) continue;
+                const file = await figmaClient.downloadImage(image.url, signal);
+                const mimeType = IMAGE_MIME_TYPES[image.format];
+                if (image.format === 'svg') {
+                  content.push({ type: 'text', text: file.data.toString('utf-8') });
+                } else if (image.format === 'pdf') {
+                  content.push({
+                    type: 'resource',
+                    resource: { uri: image.url, mimeType, blob: file.data.toString('base64') },
+                  });
+                } else {
+                  content.push({ type: 'image', data: file.data.toString('base64'), mimeType });
+                }
+              }
+            }
+            return { content };
+          }
+
+          case 'get_local_variables': {
+            const args = parseArguments('get_local_variables', request.params.arguments);
+            console.debug('[MCP Debug] Fetching local variables', {
+              fileKey: args.file_key,
+            });
+            const data = await figmaClient.getLocalVariables(args.file_key, signal);
+            return {
+              content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+            };
+          }
+
+          case 'get_published_variables': {
+            const args = parseArguments('get_published_variables', request.params.arguments);
+            console.debug('[MCP Debug] Fetching published variables', {
+              fileKey: args.file_key,
+            });
+            const data = await figmaClient.getPublishedVariables(args.file_key, signal);
+            return {
+              content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+            };
+          }
+
+          case 'extract_design_tokens': {
+            const args = parseArguments('extract_design_tokens', request.params.arguments);
+            const { format } = args;
+            console.debug('[MCP Debug] Extracting design tokens', {
+              fileKey: args.file_key,
+              format,
+            });
+            const data = await figmaClient.extractDesignTokens(args.file_key, format, signal);
+            return {
+              content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+            };
+          }
+
+          case 'generate_code': {
+            const args = parseArguments('generate_code', request.params.arguments);
+            const { target } = args;
+            console.debug('[MCP Debug] Generating code', {
+              fileKey: args.file_key,
+              nodeId: args.node_id,
+              target,
+            });
+            const code = await figmaClient.generateCode(args.file_key, args.node_id, target, signal);
+            return {
+              content: [
+                ...Object.entries(code.files).map(([fileName, source]) => ({
+                  type: 'text',
+                  text: `File: ${fileName}\n\n${source}`,
+                })),
+                { type: 'text', text: JSON.stringify({ todos: code.todos }, null, 2) },
+              ],
+            };
+          }
+
+          case 'clear_cache': {
+            const args = parseArguments('clear_cache', request.params.arguments);
+            console.debug('[MCP Debug] Clearing cache', {
+              fileKey: args.file_key,
+            });
+            const data = await figmaClient.clearCache(args.file_key, signal);
+            return {
+              content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+            };
+          }
+
+          case 'post_comment': {
+            const args = parseArguments('post_comment', request.params.arguments);
+            console.debug('[MCP Debug] Posting comment', {
+              fileKey: args.file_key,
+              nodeId: args.node_id,
+              parentId: args.parent_id,
             });
-            const data = await this.figmaClient.getFileNodes(args.file_key, args.ids);
+            const data = await figmaClient.postComment(
+              args.file_key,
+              { message: args.message, nodeId: args.node_id, nodeOffset: args.node_offset, parentId: args.parent_id },
+              signal
+            );
+            return {
+              content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+            };
+          }
+
+          case 'delete_comment': {
+            const args = parseArguments('delete_comment', request.params.arguments);
+            const data = await figmaClient.deleteComment(args.file_key, args.comment_id, signal);
+            return {
+              content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+            };
+          }
+
+          case 'add_comment_reaction': {
+            const args = parseArguments('add_comment_reaction', request.params.arguments);
+            const data = await figmaClient.addCommentReaction(args.file_key, args.comment_id, args.emoji, signal);
+            return {
+              content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+            };
+          }
+
+          case 'remove_comment_reaction': {
+            const args = parseArguments('remove_comment_reaction', request.params.arguments);
+            const data = await figmaClient.removeCommentReaction(args.file_key, args.comment_id, args.emoji, signal);
+            return {
+              content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+            };
+          }
+
+          case 'whoami': {
+            parseArguments('whoami', request.params.arguments);
+            console.debug('[MCP Debug] Fetching current user');
+            const data = await figmaClient.whoami(signal);
             return {
               content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
             };
@@ -397,14 +616,15 @@ class FigmaMCPServer {
           },
         });
 
-        if (error instanceof McpError) {
-          throw error;
+        const mcpError = toMcpError(error);
+        if (mcpError) {
+          throw mcpError;
         }
         return {
           content: [
             {
               type: 'text',
-              text: `Figma API error: ${error.message}`,
+              text: error instanceof FigmaApiError ? error.message : `Figma API error: ${error.message}`,
             },
           ],
           isError: true,
@@ -413,9 +633,162 @@ class FigmaMCPServer {
     });
   }
 
+  private setupResourceHandlers(server: Server, figmaClient: ChunkedFigmaClient) {
+    console.debug('[MCP Debug] Setting up resource handlers');
+    const subscriptions = new ResourceSubscriptions(
+      figmaClient,
+      (uri) => server.sendResourceUpdated({ uri }),
+      this.pollIntervalMs
+    );
+    server.onclose = () => subscriptions.close();
+
+    const handle = async <T>(uri: string, action: () => Promise<T>): Promise<T> => {
+      try {
+        return await action();
+      } catch (error: any) {
+        console.error('[MCP Error]', { resource: uri, error: { name: error.name, message: error.message } });
+        throw toMcpError(error) ?? error;
+      }
+    };
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: listResources(figmaClient),
+    }));
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES,
+    }));
+    server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) =>
+      handle(request.params.uri, () => readResource(figmaClient, request.params.uri, extra.signal))
+    );
+    server.setRequestHandler(SubscribeRequestSchema, async (request, extra) =>
+      handle(request.params.uri, async () => {
+        await subscriptions.subscribe(request.params.uri, extra.signal);
+        return {};
+      })
+    );
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) =>
+      handle(request.params.uri, async () => {
+        subscriptions.unsubscribe(request.params.uri);
+        return {};
+      })
+    );
+  }
+
+  private setupPromptHandlers(server: Server, figmaClient: ChunkedFigmaClient) {
+    console.debug('[MCP Debug] Setting up prompt handlers');
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: listPrompts(),
+    }));
+    server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+      console.debug('[MCP Debug] Prompt', { prompt: request.params.name, arguments: request.params.arguments });
+      try {
+        return await getPrompt(figmaClient, request.params.name, request.params.arguments, extra.signal);
+      } catch (error: any) {
+        console.error('[MCP Error]', {
+          prompt: request.params.name,
+          error: { name: error.name, message: error.message },
+        });
+        throw toMcpError(error) ?? error;
+      }
+    });
+  }
+
+  /**
+   * Streams a page of the file, or of the subtrees under rootNodeIds,
+   * for get_file_data and get_file_nodes.
+   */
+  private async getFileData(
+    figmaClient: ChunkedFigmaClient,
+    args: ToolArgs<'get_file_data'>,
+    rootNodeIds: string[] | undefined,
+    signal: AbortSignal
+  ) {
+    console.debug('[MCP Debug] Fetching file data with chunking', {
+      fileKey: args.file_key,
+      rootNodeIds,
+      pageSize: args.pageSize,
+      maxTokens: args.maxTokens,
+      nodeTypes: args.nodeTypes,
+      excludeProps: args.excludeProps,
+      summarizeNodes: args.summarizeNodes,
+      summaryLevel: args.summaryLevel
+    });
+
+    const result = await figmaClient.getFileInfoChunked(
+      args.file_key,
+      args.cursor,
+      args.depth,
+      {
+        pageSize: args.pageSize,
+        maxTokens: args.maxTokens,
+        nodeTypes: args.nodeTypes,
+        excludeProps: args.excludeProps,
+        summarizeNodes: args.summarizeNodes,
+        summaryLevel: args.summaryLevel
+      },
+      rootNodeIds,
+      signal
+    );
+
+    const variables = args.resolveVariables
+      ? await figmaClient.resolveBoundVariables(args.file_key, result.sourceNodes, false, signal)
+      : undefined;
+
+    const imageFills = args.resolveImageRefs
+      ? await figmaClient.resolveImageFills(
+          args.file_key,
+          collectImageRefs(result.sourceNodes, false),
+          false,
+          signal
+        )
+      : undefined;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            nodes: result.nodes,
+            imageFills,
+            variables,
+            tokensUsed: result.tokensUsed,
+            maxTokens: result.maxTokens,
+            remainingNodes: result.remainingNodes,
+            missingNodeIds: result.missingNodeIds,
+            nextCursor: result.nextCursor,
+            hasMore: result.hasMore
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
   async run() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    const config = loadTransportConfig(this.env);
+    if (config.transport === 'http') {
+      const transport = await startHttpTransport((credentials) => this.createServer(credentials), config);
+      const shutdown = async () => {
+        await transport.close();
+        process.exit(0);
+      };
+      process.once('SIGINT', shutdown);
+      process.once('SIGTERM', shutdown);
+      return;
+    }
+
+    if (!this.figmaClient) {
+      // Stdio has no request headers, so the credentials must come from the environment
+      console.error('[MCP Error] No Figma credentials configured');
+      throw new Error(
+        'FIGMA_ACCESS_TOKEN is required. Set it, or FIGMA_OAUTH_TOKEN for OAuth, via environment variable or config file.'
+      );
+    }
+    const server = this.createServer();
+    process.once('SIGINT', async () => {
+      await server.close();
+      process.exit(0);
+    });
+    await server.connect(new StdioServerTransport());
     console.debug('[MCP Debug] Figma MCP server running on stdio');
   }
 }
@@ -0,0 +1,97 @@
+import type { FigmaComponent, FigmaComponentSet, FigmaContainingFrame } from './types.js';
+
+/**
+ * Variants of one component set within a page of team components, with the
+ * values each variant property takes, in the order they first appear.
+ */
+export interface ComponentSetGroup {
+  componentSet: { nodeId: string; name: string };
+  fileKey?: string;
+  properties: { [property: string]: string[] };
+  variants: FigmaComponent[];
+}
+
+/**
+ * Parses a variant name such as "Size=Large, State=Hover". Returns undefined
+ * when the name is not a list of property=value pairs.
+ */
+export function parseVariantProperties(name: string): { [property: string]: string } | undefined {
+  const properties: { [property: string]: string } = {};
+  for (const part of name.split(',')) {
+    const separator = part.indexOf('=');
+    const property = part.slice(0, separator).trim();
+    if (separator < 0 || !property) return undefined;
+    properties[property] = part.slice(separator + 1).trim();
+  }
+  return properties;
+}
+
+function toContainingFrame(frame: any): FigmaContainingFrame | undefined {
+  if (!frame) return undefined;
+  return { nodeId: frame.nodeId, name: frame.name, pageId: frame.pageId, pageName: frame.pageName };
+}
+
+/**
+ * Maps a component from the library endpoints, which use snake_case, to
+ * FigmaComponent.
+ */
+export function toComponent(component: any): FigmaComponent {
+  // containingStateGroup is the older name of containingComponentSet
+  const set = component.containing_frame?.containingComponentSet ?? component.containing_frame?.containingStateGroup;
+  return {
+    key: component.key,
+    name: component.name,
+    description: component.description || undefined,
+    fileKey: component.file_key,
+    nodeId: component.node_id,
+    thumbnailUrl: component.thumbnail_url,
+    updatedAt: component.updated_at,
+    containingFrame: toContainingFrame(component.containing_frame),
+    componentSetId: set?.nodeId,
+    componentSet: set?.nodeId ? { nodeId: set.nodeId, name: set.name } : undefined,
+    variantProperties: set?.nodeId ? parseVariantProperties(component.name) : undefined,
+  };
+}
+
+export function toComponentSet(componentSet: any): FigmaComponentSet {
+  return {
+    key: componentSet.key,
+    name: componentSet.name,
+    description: componentSet.description || undefined,
+    fileKey: componentSet.file_key,
+    nodeId: componentSet.node_id,
+    thumbnailUrl: componentSet.thumbnail_url,
+    updatedAt: componentSet.updated_at,
+    containingFrame: toContainingFrame(componentSet.containing_frame),
+  };
+}
+
+/**
+ * Groups the variants of each component set, keeping the order in which the
+ * sets first appear. Components outside a set are returned as they are.
+ */
+export function groupByComponentSet(components: FigmaComponent[]): {
+  componentSets: ComponentSetGroup[];
+  components: FigmaComponent[];
+} {
+  const groups = new Map<string, ComponentSetGroup>();
+  const standalone: FigmaComponent[] = [];
+  for (const component of components) {
+    if (!component.componentSet) {
+      standalone.push(component);
+      continue;
+    }
+    const key = `${component.fileKey}/${component.componentSet.nodeId}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { componentSet: component.componentSet, fileKey: component.fileKey, properties: {}, variants: [] };
+      groups.set(key, group);
+    }
+    group.variants.push(component);
+    for (const [property, value] of Object.entries(component.variantProperties ?? {})) {
+      if (!group.properties[property]) group.properties[property] = [];
+      if (!group.properties[property].includes(value)) group.properties[property].push(value);
+    }
+  }
+  return { componentSets: [...groups.values()], components: standalone };
+}
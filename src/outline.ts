@@ -0,0 +1,101 @@
+import type { SceneNode } from './types.js';
+
+/**
+ * Output format: an indented text tree or a JSON tree.
+ */
+export type OutlineFormat = 'text' | 'json';
+
+/**
+ * One line of the outline. `count` is set when consecutive instances of the
+ * same component were collapsed into this entry.
+ */
+export interface OutlineEntry {
+  id: string;
+  type: string;
+  name?: string;
+  childCount: number;
+  bbox?: { x: number; y: number; width: number; height: number };
+  count?: number;
+  children?: OutlineEntry[];
+}
+
+/**
+ * A node visited by the traversal, with its depth (pages are at depth 1)
+ * and the number of sibling instances it stands for.
+ */
+export interface TraversedNode {
+  node: SceneNode;
+  depth: number;
+  count: number;
+}
+
+export function outlineEntry(node: SceneNode): OutlineEntry {
+  const entry: OutlineEntry = {
+    id: node.id,
+    type: node.type,
+    name: node.name,
+    childCount: 'children' in node && Array.isArray(node.children) ? node.children.length : 0,
+  };
+  if (node.absoluteBoundingBox) {
+    const { x, y, width, height } = node.absoluteBoundingBox;
+    entry.bbox = { x, y, width, height };
+  }
+  return entry;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function describeEntry(entry: OutlineEntry): string {
+  const name = entry.count ? `${entry.name ?? entry.type} × ${entry.count}` : entry.name ?? '';
+  const parts = [`${name} [${entry.type} ${entry.id}]`];
+  if (entry.bbox) {
+    const { x, y, width, height } = entry.bbox;
+    parts.push(`${round(width)}×${round(height)} at (${round(x)}, ${round(y)})`);
+  }
+  if (entry.childCount > 0) {
+    parts.push(`${entry.childCount} ${entry.childCount === 1 ? 'child' : 'children'}`);
+  }
+  return parts.join(' ');
+}
+
+function toEntry(item: TraversedNode): OutlineEntry {
+  const entry = outlineEntry(item.node);
+  if (item.count > 1) entry.count = item.count;
+  return entry;
+}
+
+/**
+ * Renders one page of the traversal as indented lines, two spaces per level.
+ */
+export function formatOutlineText(nodes: TraversedNode[]): string {
+  return nodes
+    .map((item) => `${'  '.repeat(item.depth - 1)}${describeEntry(toEntry(item))}`)
+    .join('\n');
+}
+
+/**
+ * Nests one page of the traversal. Entries whose parent was returned on an
+ * earlier page become roots.
+ */
+export function buildOutlineTree(nodes: TraversedNode[]): OutlineEntry[] {
+  const roots: OutlineEntry[] = [];
+  const parents: Array<{ entry: OutlineEntry; depth: number }> = [];
+
+  for (const item of nodes) {
+    const entry = toEntry(item);
+    while (parents.length > 0 && parents[parents.length - 1].depth >= item.depth) {
+      parents.pop();
+    }
+    const parent = parents[parents.length - 1];
+    if (parent && parent.depth === item.depth - 1) {
+      if (!parent.entry.children) parent.entry.children = [];
+      parent.entry.children.push(entry);
+    } else {
+      roots.push(entry);
+    }
+    parents.push({ entry, depth: item.depth });
+  }
+  return roots;
+}
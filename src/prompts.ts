@@ -0,0 +1,255 @@
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ChunkedFigmaClient } from './client.js';
+import { describeIssue, nodeId } from './tools.js';
+import type { FigmaPublishedStyle, SceneNode } from './types.js';
+
+const fileKey = z.string().min(1).describe('Figma file key');
+const frameId = nodeId.describe('ID of the frame or component, as 1:2 or 1-2');
+const includeImage = z
+  .enum(['true', 'false'])
+  .describe('Embed a PNG rendering of the node (defaults to true)')
+  .optional();
+
+/**
+ * Every prompt, defined like the tools. Prompt arguments are always
+ * strings, so flags are "true" or "false".
+ */
+export const PROMPTS = {
+  implement_frame: {
+    description: 'Implement a frame or component as code, with its node data, styles and a rendering',
+    schema: z
+      .object({
+        file_key: fileKey,
+        node_id: frameId,
+        target: z
+          .enum(['html', 'react-tailwind'])
+          .describe('Plain HTML and CSS (html, default) or a React component with Tailwind classes')
+          .optional(),
+        include_image: includeImage,
+      })
+      .strict(),
+  },
+  audit_accessibility: {
+    description: 'Audit a screen for accessibility issues such as contrast, text size and touch targets',
+    schema: z
+      .object({
+        file_key: fileKey,
+        node_id: frameId,
+        include_image: includeImage,
+      })
+      .strict(),
+  },
+  summarize_changes: {
+    description: 'Summarize how a file changed since a version, from its version history and a diff of its nodes',
+    schema: z
+      .object({
+        file_key: fileKey,
+        since_version: z
+          .string()
+          .min(1)
+          .describe('Version id to compare against (defaults to the previous version)')
+          .optional(),
+      })
+      .strict(),
+  },
+};
+
+export type PromptName = keyof typeof PROMPTS;
+type PromptArgs<N extends PromptName> = z.infer<(typeof PROMPTS)[N]['schema']>;
+
+type PromptMessage =
+  | { role: 'user'; content: { type: 'text'; text: string } }
+  | { role: 'user'; content: { type: 'image'; data: string; mimeType: string } };
+
+/**
+ * The prompt list advertised in response to prompts/list.
+ */
+export function listPrompts() {
+  return Object.entries(PROMPTS).map(([name, prompt]) => ({
+    name,
+    description: prompt.description,
+    arguments: Object.entries(prompt.schema.shape).map(([argument, schema]) => ({
+      name: argument,
+      description: schema.description,
+      required: !schema.isOptional(),
+    })),
+  }));
+}
+
+function isPromptName(name: string): name is PromptName {
+  return Object.prototype.hasOwnProperty.call(PROMPTS, name);
+}
+
+function parsePromptArguments<N extends PromptName>(name: N, args: unknown): PromptArgs<N> {
+  const result = PROMPTS[name].schema.safeParse(args ?? {});
+  if (!result.success) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid arguments for prompt ${name}: ${result.error.issues.map(describeIssue).join('; ')}`
+    );
+  }
+  return result.data as PromptArgs<N>;
+}
+
+function text(value: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text: value } };
+}
+
+function json(label: string, data: unknown): PromptMessage {
+  return text(`${label}:\n\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``);
+}
+
+/**
+ * The first page of the node's subtree as compact summaries, and the
+ * published styles it uses.
+ */
+async function fetchNodeContext(client: ChunkedFigmaClient, fileKey: string, id: string, signal?: AbortSignal) {
+  const result = await client.getFileInfoChunked(
+    fileKey,
+    undefined,
+    undefined,
+    { summaryLevel: 'compact' },
+    [id],
+    signal
+  );
+
+  const styleIds = new Set(
+    result.sourceNodes.flatMap((node: SceneNode) => ('styles' in node ? Object.values(node.styles ?? {}) : []))
+  );
+  const published: FigmaPublishedStyle[] =
+    styleIds.size > 0 ? (await client.getStyles(fileKey, signal))?.meta?.styles ?? [] : [];
+  const styles = published
+    .filter((style) => styleIds.has(style.node_id))
+    .map(({ node_id, name, style_type, description }) => ({ node_id, name, style_type, description }));
+
+  return {
+    nodes: result.nodes,
+    // Deeper nodes are read with get_file_data, root_node_id and this cursor
+    nextCursor: result.nextCursor,
+    hasMore: result.hasMore,
+    styles,
+  };
+}
+
+async function renderNode(
+  client: ChunkedFigmaClient,
+  fileKey: string,
+  id: string,
+  signal?: AbortSignal
+): Promise<PromptMessage[]> {
+  const [image] = await client.exportNodeImages(fileKey, [id], { format: 'png', scale: 1 }, signal);
+  if (!image?.url) {
+    return [text(`Figma could not render node ${id}, so no image is attached.`)];
+  }
+  const file = await client.downloadImage(image.url, signal);
+  return [{ role: 'user', content: { type: 'image', data: file.data.toString('base64'), mimeType: 'image/png' } }];
+}
+
+async function implementFrame(client: ChunkedFigmaClient, args: PromptArgs<'implement_frame'>, signal?: AbortSignal) {
+  const target = args.target ?? 'html';
+  const context = await fetchNodeContext(client, args.file_key, args.node_id, signal);
+  const messages = [
+    text(
+      [
+        `Implement the Figma node ${args.node_id} from file ${args.file_key} as ${
+          target === 'html' ? 'semantic HTML and CSS' : 'a React component styled with Tailwind classes'
+        }.`,
+        'Match the layout, spacing, typography and colors of the design. Use flexbox where the node uses auto layout,',
+        'reuse the named styles below as CSS variables or theme tokens, and keep text content exactly as designed.',
+        context.hasMore ? 'The node data is truncated; fetch the rest with get_file_data before implementing nested parts.' : '',
+      ]
+        .filter(Boolean)
+        .join(' ')
+    ),
+    json('Node data (compact summaries, children listed by id)', context),
+  ];
+  if (args.include_image !== 'false') {
+    messages.push(...(await renderNode(client, args.file_key, args.node_id, signal)));
+  }
+  return { description: `Implement ${args.node_id} as ${target}`, messages };
+}
+
+async function auditAccessibility(
+  client: ChunkedFigmaClient,
+  args: PromptArgs<'audit_accessibility'>,
+  signal?: AbortSignal
+) {
+  const context = await fetchNodeContext(client, args.file_key, args.node_id, signal);
+  const messages = [
+    text(
+      [
+        `Audit the Figma node ${args.node_id} from file ${args.file_key} for accessibility against WCAG 2.2 AA.`,
+        'Check text contrast against its background, minimum text sizes, touch target sizes of at least 24×24 px,',
+        'heading and reading order, and whether icons and images need text alternatives.',
+        'List each issue with the node id, what is wrong and a concrete fix, most severe first.',
+      ].join(' ')
+    ),
+    json('Node data (compact summaries, children listed by id)', context),
+  ];
+  if (args.include_image !== 'false') {
+    messages.push(...(await renderNode(client, args.file_key, args.node_id, signal)));
+  }
+  return { description: `Accessibility audit of ${args.node_id}`, messages };
+}
+
+async function summarizeChanges(
+  client: ChunkedFigmaClient,
+  args: PromptArgs<'summarize_changes'>,
+  signal?: AbortSignal
+) {
+  const [metadata, history] = await Promise.all([
+    client.getFileMetadata(args.file_key, signal),
+    client.getFileVersions(args.file_key, signal),
+  ]);
+  const versions: any[] = history?.versions ?? [];
+  const sinceIndex = args.since_version ? versions.findIndex((version) => version.id === args.since_version) : 1;
+  if (args.since_version && sinceIndex < 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Version ${args.since_version} not found in the file history`);
+  }
+  const since = versions[sinceIndex];
+  const changes = since
+    ? json(
+        'Node changes since then, by top-level frame (continue with diff_file_versions and nextCursor if hasMore)',
+        await client.diffFileVersions(args.file_key, since.id, undefined, { groupBy: 'frame' }, signal)
+      )
+    : json('Current outline', {
+        version: metadata.version,
+        lastModified: metadata.lastModified,
+        outline: (await client.getFileOutline(args.file_key, {}, signal)).outline,
+      });
+
+  return {
+    description: `Changes to ${metadata.name} since ${since?.label || since?.id || 'the first version'}`,
+    messages: [
+      text(
+        [
+          `Summarize what changed in the Figma file ${metadata.name} (${args.file_key})`,
+          since ? `since version ${since.id}${since.label ? ` "${since.label}"` : ''} of ${since.created_at}.` : 'over its history.',
+          'Group the changes by page and frame, call out anything that affects an implementation in progress,',
+          'and use the version labels and descriptions below as the authors intended them.',
+        ].join(' ')
+      ),
+      json('Versions since then, newest first', sinceIndex >= 0 ? versions.slice(0, sinceIndex + 1) : versions),
+      changes,
+    ],
+  };
+}
+
+/**
+ * Validates the arguments of a prompt and pre-fetches the design data it
+ * embeds.
+ */
+export async function getPrompt(client: ChunkedFigmaClient, name: string, args: unknown, signal?: AbortSignal) {
+  if (!isPromptName(name)) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  switch (name) {
+    case 'implement_frame':
+      return implementFrame(client, parsePromptArguments(name, args), signal);
+    case 'audit_accessibility':
+      return auditAccessibility(client, parsePromptArguments(name, args), signal);
+    case 'summarize_changes':
+      return summarizeChanges(client, parsePromptArguments(name, args), signal);
+  }
+}
@@ -0,0 +1,225 @@
+import type { ChunkedFigmaClient } from './client.js';
+import { nodeId } from './tools.js';
+
+const URI_PATTERN = /^figma:\/\/file\/([^/]+)(?:\/(node)\/([^/]+)|\/(styles|components))?$/;
+
+export type FigmaResourceKind = 'file' | 'node' | 'styles' | 'components';
+
+export interface FigmaResourceUri {
+  fileKey: string;
+  kind: FigmaResourceKind;
+  nodeId?: string;
+}
+
+/**
+ * Raised when a resource URI does not match any figma:// template.
+ */
+export class InvalidResourceUriError extends Error {
+  constructor(uri: string) {
+    super(
+      `Unknown resource ${uri}. Expected figma://file/{file_key}, figma://file/{file_key}/node/{node_id}, figma://file/{file_key}/styles or figma://file/{file_key}/components`
+    );
+    this.name = 'InvalidResourceUriError';
+  }
+}
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'figma://file/{file_key}',
+    name: 'Figma file',
+    description: 'File name, version and an outline of its pages and top-level frames',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'figma://file/{file_key}/node/{node_id}',
+    name: 'Figma node',
+    description:
+      'A node and its subtree, paginated like get_file_data. Node ids may be written as 1:2 or 1-2, as in Figma URLs.',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'figma://file/{file_key}/styles',
+    name: 'Figma file styles',
+    description: 'Published styles of the file',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'figma://file/{file_key}/components',
+    name: 'Figma file components',
+    description: 'Published components of the file',
+    mimeType: 'application/json',
+  },
+];
+
+export function parseResourceUri(uri: string): FigmaResourceUri {
+  const match = URI_PATTERN.exec(uri);
+  if (!match) throw new InvalidResourceUriError(uri);
+  const [, fileKey, node, rawNodeId, section] = match;
+  if (node) {
+    return { fileKey, kind: 'node', nodeId: nodeId.parse(decodeURIComponent(rawNodeId)) };
+  }
+  return { fileKey, kind: (section as FigmaResourceKind | undefined) ?? 'file' };
+}
+
+export function resourceUri(fileKey: string, kind: FigmaResourceKind = 'file', nodeId?: string): string {
+  const base = `figma://file/${fileKey}`;
+  if (kind === 'node') return `${base}/node/${encodeURIComponent(nodeId ?? '')}`;
+  return kind === 'file' ? base : `${base}/${kind}`;
+}
+
+/**
+ * Resources for the cached files this client has accessed. Any other file
+ * can be read through the templates.
+ */
+export function listResources(client: ChunkedFigmaClient) {
+  return client.getCachedFiles().flatMap((file) => [
+    {
+      uri: resourceUri(file.fileKey),
+      name: file.name,
+      description: `Figma file ${file.name} (version ${file.version})`,
+      mimeType: 'application/json',
+    },
+    {
+      uri: resourceUri(file.fileKey, 'styles'),
+      name: `${file.name} styles`,
+      mimeType: 'application/json',
+    },
+    {
+      uri: resourceUri(file.fileKey, 'components'),
+      name: `${file.name} components`,
+      mimeType: 'application/json',
+    },
+  ]);
+}
+
+async function readResourceData(client: ChunkedFigmaClient, resource: FigmaResourceUri, signal?: AbortSignal) {
+  switch (resource.kind) {
+    case 'file': {
+      const metadata = await client.getFileMetadata(resource.fileKey, signal);
+      const { outline, hasMore } = await client.getFileOutline(resource.fileKey, {}, signal);
+      return { fileKey: resource.fileKey, ...metadata, outline, outlineTruncated: hasMore || undefined };
+    }
+    case 'node': {
+      const result = await client.getFileInfoChunked(
+        resource.fileKey,
+        undefined,
+        undefined,
+        {},
+        [resource.nodeId!],
+        signal
+      );
+      return {
+        nodes: result.nodes,
+        tokensUsed: result.tokensUsed,
+        maxTokens: result.maxTokens,
+        remainingNodes: result.remainingNodes,
+        // The rest of the subtree is read with get_file_data, root_node_id and this cursor
+        nextCursor: result.nextCursor,
+        hasMore: result.hasMore,
+      };
+    }
+    case 'styles':
+      return client.getStyles(resource.fileKey, signal);
+    case 'components':
+      return client.getComponents(resource.fileKey, signal);
+  }
+}
+
+export async function readResource(client: ChunkedFigmaClient, uri: string, signal?: AbortSignal) {
+  const resource = parseResourceUri(uri);
+  console.debug('[MCP Debug] Reading resource', resource);
+  const data = await readResourceData(client, resource, signal);
+  return {
+    contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }],
+  };
+}
+
+interface SubscribedFile {
+  uris: Set<string>;
+  ready: Promise<void>; // settles once the initial version check is done
+  version?: string;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Polls the version of every file with a subscribed resource and reports
+ * each subscribed URI of a file once its version changes.
+ */
+export class ResourceSubscriptions {
+  private client: ChunkedFigmaClient;
+  private notify: (uri: string) => Promise<void>;
+  private intervalMs: number;
+  private files: Map<string, SubscribedFile>;
+
+  constructor(client: ChunkedFigmaClient, notify: (uri: string) => Promise<void>, intervalMs: number) {
+    this.client = client;
+    this.notify = notify;
+    this.intervalMs = intervalMs;
+    this.files = new Map();
+  }
+
+  async subscribe(uri: string, signal?: AbortSignal) {
+    const { fileKey } = parseResourceUri(uri);
+    const existing = this.files.get(fileKey);
+    if (existing) {
+      existing.uris.add(uri);
+      // Concurrent subscribes to one file share the first one's check
+      return existing.ready;
+    }
+
+    // Registered before the version check so that a concurrent subscribe
+    // cannot start a second timer
+    const file: SubscribedFile = { uris: new Set([uri]), ready: Promise.resolve() };
+    file.ready = this.client.getFileVersion(fileKey, signal).then(
+      ({ version }) => {
+        if (this.files.get(fileKey) !== file) return; // unsubscribed meanwhile
+        file.version = version;
+        file.timer = setInterval(() => void this.poll(fileKey), this.intervalMs);
+        file.timer.unref();
+        console.debug('[MCP Debug] Subscribed to file', { fileKey, version, intervalMs: this.intervalMs });
+      },
+      (error) => {
+        // Fails the subscription up front when the file is missing or inaccessible
+        if (this.files.get(fileKey) === file) this.files.delete(fileKey);
+        throw error;
+      }
+    );
+    this.files.set(fileKey, file);
+    return file.ready;
+  }
+
+  unsubscribe(uri: string) {
+    const { fileKey } = parseResourceUri(uri);
+    const file = this.files.get(fileKey);
+    if (!file) return;
+    file.uris.delete(uri);
+    if (file.uris.size === 0) {
+      clearInterval(file.timer);
+      this.files.delete(fileKey);
+      console.debug('[MCP Debug] Unsubscribed from file', { fileKey });
+    }
+  }
+
+  private async poll(fileKey: string) {
+    const file = this.files.get(fileKey);
+    if (!file) return;
+    try {
+      const { version } = await this.client.getFileVersion(fileKey);
+      if (version === file.version) return;
+      console.debug('[MCP Debug] File changed', { fileKey, from: file.version, to: version });
+      file.version = version;
+      for (const uri of file.uris) {
+        await this.notify(uri);
+      }
+    } catch (error: any) {
+      console.error('[MCP Error] Failed to poll file version', { fileKey, message: error?.message });
+    }
+  }
+
+  close() {
+    for (const file of this.files.values()) {
+      clearInterval(file.timer);
+    }
+    this.files.clear();
+  }
+}
@@ -0,0 +1,176 @@
+import { colorToHex } from './color.js';
+import { NODE_TYPES } from './types.js';
+import type { Paint, SceneNode, TypeStyle } from './types.js';
+
+/**
+ * Criteria for search_nodes. A node matches when it meets every given
+ * criterion.
+ */
+export interface NodeQuery {
+  name?: string; // glob, `*` and `?` wildcards, case-insensitive
+  nameRegex?: string;
+  type?: string | string[];
+  text?: string; // substring of the characters of a text, sticky, shape, connector or table cell, case-insensitive
+  componentId?: string;
+  fillColor?: string; // #rrggbb or #rrggbbaa
+  fontFamily?: string;
+  fontSize?: number;
+  ancestorPath?: string; // glob over ancestor names joined with '/'
+}
+
+export interface Breadcrumb {
+  id: string;
+  name: string;
+}
+
+export interface SearchMatch {
+  id: string;
+  type: string;
+  name?: string;
+  characters?: string;
+  breadcrumbs: Breadcrumb[];
+}
+
+export type NodeMatcher = (node: SceneNode, ancestors: SceneNode[]) => boolean;
+
+/**
+ * Raised when a search query has no criteria or contains an invalid pattern.
+ */
+export class InvalidQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidQueryError';
+  }
+}
+
+const MAX_CHARACTERS = 200;
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+
+function globToRegex(glob: string): RegExp {
+  const source = escapeRegex(glob).replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * `*` and `?` stay within one path segment, `**` spans segments.
+ */
+function pathGlobToRegex(glob: string): RegExp {
+  const source = glob
+    .split('**')
+    .map((part) => escapeRegex(part).replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function compileRegex(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (error: any) {
+    throw new InvalidQueryError(`Invalid nameRegex: ${error.message}`);
+  }
+}
+
+function normalizeHex(value: string): string {
+  const hex = value.trim().toLowerCase();
+  if (!/^#([0-9a-f]{6}|[0-9a-f]{8})$/.test(hex)) {
+    throw new InvalidQueryError(`fillColor must be #rrggbb or #rrggbbaa, got ${value}`);
+  }
+  return hex.endsWith('ff') && hex.length === 9 ? hex.slice(0, 7) : hex;
+}
+
+function solidFills(node: SceneNode): string[] {
+  const fills = (node as any).fills;
+  if (!Array.isArray(fills)) return [];
+  return fills
+    .filter((paint: Paint) => paint.visible !== false && paint.type === 'SOLID' && paint.color)
+    .map((paint: Paint) => colorToHex(paint.color!, paint.opacity ?? 1));
+}
+
+function charactersOf(node: SceneNode): string | undefined {
+  return 'characters' in node ? node.characters : undefined;
+}
+
+function textStyles(node: SceneNode): TypeStyle[] {
+  if (!('style' in node)) return [];
+  const overrides = node.type === 'TEXT' ? Object.values(node.styleOverrideTable ?? {}) : [];
+  return [node.style, ...overrides].filter((style): style is TypeStyle => Boolean(style));
+}
+
+/**
+ * Turns a query into a predicate over a node and its ancestors, ordered
+ * from the page down.
+ */
+export function compileQuery(query: NodeQuery): NodeMatcher {
+  const checks: NodeMatcher[] = [];
+
+  if (query.name !== undefined) {
+    const pattern = globToRegex(query.name);
+    checks.push((node) => pattern.test(node.name ?? ''));
+  }
+  if (query.nameRegex !== undefined) {
+    const pattern = compileRegex(query.nameRegex);
+    checks.push((node) => pattern.test(node.name ?? ''));
+  }
+  if (query.type !== undefined) {
+    const types = (Array.isArray(query.type) ? query.type : [query.type]).map((type) => type.toUpperCase());
+    const unknown = types.filter((type) => !(NODE_TYPES as readonly string[]).includes(type));
+    if (unknown.length > 0) {
+      throw new InvalidQueryError(`Unknown node types: ${unknown.join(', ')}`);
+    }
+    checks.push((node) => types.includes(node.type));
+  }
+  if (query.text !== undefined) {
+    const text = query.text.toLowerCase();
+    checks.push((node) => (charactersOf(node) ?? '').toLowerCase().includes(text));
+  }
+  if (query.componentId !== undefined) {
+    const componentId = query.componentId;
+    checks.push(
+      (node) =>
+        (node.type === 'INSTANCE' && node.componentId === componentId) ||
+        (node.type === 'COMPONENT' && node.id === componentId)
+    );
+  }
+  if (query.fillColor !== undefined) {
+    const color = normalizeHex(query.fillColor);
+    checks.push((node) => solidFills(node).includes(color));
+  }
+  if (query.fontFamily !== undefined) {
+    const family = query.fontFamily.toLowerCase();
+    checks.push((node) => textStyles(node).some((style) => style.fontFamily?.toLowerCase() === family));
+  }
+  if (query.fontSize !== undefined) {
+    const size = query.fontSize;
+    checks.push((node) => textStyles(node).some((style) => style.fontSize === size));
+  }
+  if (query.ancestorPath !== undefined) {
+    const pattern = pathGlobToRegex(query.ancestorPath);
+    // Matches nodes anywhere inside a subtree whose path matches
+    checks.push((_node, ancestors) =>
+      ancestors.some((_, i) => pattern.test(ancestors.slice(0, i + 1).map((a) => a.name).join('/')))
+    );
+  }
+
+  if (checks.length === 0) {
+    throw new InvalidQueryError('At least one search criterion is required');
+  }
+  return (node, ancestors) => checks.every((check) => check(node, ancestors));
+}
+
+export function toSearchMatch(node: SceneNode, ancestors: SceneNode[]): SearchMatch {
+  const match: SearchMatch = {
+    id: node.id,
+    type: node.type,
+    name: node.name,
+    breadcrumbs: ancestors.map((ancestor) => ({ id: ancestor.id, name: ancestor.name })),
+  };
+  const characters = charactersOf(node);
+  if (characters !== undefined) {
+    match.characters =
+      characters.length > MAX_CHARACTERS ? `${characters.slice(0, MAX_CHARACTERS)}…` : characters;
+  }
+  return match;
+}
@@ -0,0 +1,172 @@
+import { colorToHex } from './color.js';
+import type { NodeType, Paint, SceneNode } from './types.js';
+
+/**
+ * How much of each node to return:
+ * - `ids-only`: id and type
+ * - `outline`: adds name, hidden state and child ids
+ * - `compact`: adds bounds and the type-specific properties that matter most
+ * - `full`: the node as returned by Figma
+ */
+export type SummaryLevel = 'ids-only' | 'outline' | 'compact' | 'full';
+
+export const SUMMARY_LEVELS: SummaryLevel[] = ['ids-only', 'outline', 'compact', 'full'];
+
+/**
+ * A projection of a node. Only values present on the original node are
+ * copied; `_omitted` lists the original fields that were left out.
+ */
+export interface NodeSummary {
+  id: string;
+  type: string;
+  [field: string]: any;
+  _omitted?: string[];
+}
+
+/**
+ * File-level data used to describe nodes, such as component names for instances.
+ */
+export interface SummaryContext {
+  components?: { [componentId: string]: { name?: string; componentSetId?: string } };
+}
+
+const LAYOUT_FIELDS = [
+  'layoutMode',
+  'layoutWrap',
+  'primaryAxisAlignItems',
+  'counterAxisAlignItems',
+  'primaryAxisSizingMode',
+  'counterAxisSizingMode',
+  'paddingLeft',
+  'paddingRight',
+  'paddingTop',
+  'paddingBottom',
+  'itemSpacing',
+  'layoutSizingHorizontal',
+  'layoutSizingVertical',
+];
+
+const TYPE_FIELDS: { [type in NodeType]?: string[] } = {
+  SECTION: ['sectionContentsHidden', 'devStatus'],
+  TEXT: ['characters'],
+  STAR: ['pointCount', 'innerRadius'],
+  ELLIPSE: ['arcData'],
+  REGULAR_POLYGON: ['pointCount'],
+  BOOLEAN_OPERATION: ['booleanOperation'],
+  COMPONENT: ['componentId', 'componentPropertyDefinitions'],
+  COMPONENT_SET: ['componentPropertyDefinitions'],
+  INSTANCE: ['componentId', 'componentProperties', 'overrides'],
+  STICKY: ['characters', 'authorVisible'],
+  SHAPE_WITH_TEXT: ['shapeType', 'characters'],
+  CONNECTOR: ['connectorStart', 'connectorEnd', 'connectorLineType', 'characters'],
+  TABLE_CELL: ['characters'],
+};
+
+function describePaint(paint: Paint): string {
+  if (paint.type === 'SOLID' && paint.color) {
+    return colorToHex(paint.color, paint.opacity ?? 1);
+  }
+  if (paint.type === 'IMAGE') {
+    return paint.imageRef ? `IMAGE(${paint.imageRef})` : 'IMAGE';
+  }
+  return paint.type;
+}
+
+function primaryPaint(paints: unknown): string | undefined {
+  if (!Array.isArray(paints)) return undefined;
+  const visible = paints.filter((paint: Paint) => paint.visible !== false);
+  // Paints are listed bottom to top, so the last one is what is seen
+  return visible.length > 0 ? describePaint(visible[visible.length - 1]) : undefined;
+}
+
+function copyFields(source: any, target: { [key: string]: any }, fields: string[]) {
+  for (const field of fields) {
+    if (source[field] !== undefined) {
+      target[field] = source[field];
+    }
+  }
+}
+
+function compactFields(node: SceneNode, summary: NodeSummary, context: SummaryContext) {
+  const source = node as any;
+
+  if (source.absoluteBoundingBox) {
+    const { x, y, width, height } = source.absoluteBoundingBox;
+    summary.bounds = { x, y, width, height };
+  }
+  if (Array.isArray(source.children) && source.children.length > 0) {
+    copyFields(source, summary, LAYOUT_FIELDS);
+  }
+  copyFields(source, summary, TYPE_FIELDS[node.type] ?? []);
+  copyFields(source, summary, ['cornerRadius', 'rectangleCornerRadii', 'opacity', 'boundVariables']);
+
+  const fill = primaryPaint(source.fills ?? source.background);
+  if (fill) summary.fill = fill;
+  const stroke = primaryPaint(source.strokes);
+  if (stroke) {
+    summary.stroke = source.strokeWeight !== undefined ? `${stroke} ${source.strokeWeight}px` : stroke;
+  }
+  if (Array.isArray(source.effects) && source.effects.length > 0) {
+    summary.effects = source.effects
+      .filter((effect: any) => effect.visible !== false)
+      .map((effect: any) => effect.type);
+  }
+
+  if (source.style && typeof source.style.fontFamily === 'string') {
+    const style: { [key: string]: any } = {};
+    copyFields(source.style, style, [
+      'fontFamily',
+      'fontWeight',
+      'fontSize',
+      'lineHeightPx',
+      'letterSpacing',
+      'textAlignHorizontal',
+      'italic',
+    ]);
+    summary.style = style;
+  }
+
+  if (node.type === 'INSTANCE' && source.componentId) {
+    const component = context.components?.[source.componentId];
+    if (component?.name) summary.componentName = component.name;
+  }
+}
+
+/**
+ * Projects a node to the given summary level. Values are only ever copied
+ * from the node, never filled in with defaults.
+ */
+export function summarizeNode(
+  node: SceneNode,
+  level: SummaryLevel,
+  context: SummaryContext = {}
+): SceneNode | NodeSummary {
+  if (level === 'full') return node;
+
+  const source = node as any;
+  const summary: NodeSummary = { id: node.id, type: node.type };
+
+  if (level !== 'ids-only') {
+    if (node.name !== undefined) summary.name = node.name;
+    if (node.visible === false) summary.visible = false;
+    if (Array.isArray(source.children)) {
+      summary.childIds = source.children.map((child: SceneNode) => child.id);
+    }
+  }
+  if (level === 'compact') {
+    compactFields(node, summary, context);
+  }
+
+  const derived = ['bounds', 'fill', 'stroke', 'childIds', 'componentName'];
+  const covered = new Set(Object.keys(summary).filter((key) => !derived.includes(key)));
+  if (summary.bounds) covered.add('absoluteBoundingBox');
+  if (summary.childIds) covered.add('children');
+  if (summary.fill) covered.add(source.fills ? 'fills' : 'background');
+  if (summary.stroke) covered.add('strokes').add('strokeWeight');
+
+  const omitted = Object.keys(node).filter((key) => !covered.has(key));
+  if (omitted.length > 0) {
+    summary._omitted = omitted;
+  }
+  return summary;
+}
@@ -0,0 +1,196 @@
+import { colorToHex } from './color.js';
+import type { Effect, FigmaPublishedStyle, Paint, SceneNode, TypeStyle } from './types.js';
+
+/**
+ * Output format: W3C Design Tokens Community Group JSON (`$value`/`$type`)
+ * or Style Dictionary JSON (`value`/`type`).
+ */
+export type TokenFormat = 'dtcg' | 'style-dictionary';
+
+export interface TokenTree {
+  [name: string]: TokenTree | any;
+}
+
+export interface SkippedStyle {
+  name: string;
+  styleType: string;
+  reason: string;
+}
+
+export interface DesignTokens {
+  tokens: TokenTree;
+  skipped: SkippedStyle[];
+}
+
+interface Token {
+  type: string;
+  value: any;
+}
+
+function px(value: number): string {
+  return `${Math.round(value * 100) / 100}px`;
+}
+
+function paintToken(paints: Paint[] | undefined): Token | string {
+  const visible = (paints ?? []).filter((paint) => paint.visible !== false);
+  if (visible.length === 0) return 'Style has no visible fills';
+  if (visible.length > 1) return `Style has ${visible.length} stacked fills`;
+
+  const paint = visible[0];
+  const opacity = paint.opacity ?? 1;
+  if (paint.type === 'SOLID' && paint.color) {
+    return { type: 'color', value: colorToHex(paint.color, opacity) };
+  }
+  if (paint.type.startsWith('GRADIENT_') && paint.gradientStops) {
+    return {
+      type: 'gradient',
+      value: paint.gradientStops.map((stop) => ({
+        color: colorToHex(stop.color, opacity),
+        position: Math.round(stop.position * 1000) / 1000,
+      })),
+    };
+  }
+  return `${paint.type} fills cannot be expressed as tokens`;
+}
+
+function typographyToken(style: TypeStyle | undefined): Token | string {
+  if (!style) return 'Style node has no text style';
+
+  const value: { [key: string]: any } = {
+    fontFamily: style.fontFamily,
+    fontWeight: style.fontWeight,
+    fontSize: px(style.fontSize),
+    letterSpacing: px(style.letterSpacing ?? 0),
+  };
+  if (style.lineHeightPx && style.fontSize) {
+    value.lineHeight = Math.round((style.lineHeightPx / style.fontSize) * 1000) / 1000;
+  }
+  if (style.italic) {
+    value.fontStyle = 'italic';
+  }
+  if (style.textCase && style.textCase !== 'ORIGINAL') {
+    value.textCase = style.textCase.toLowerCase();
+  }
+  if (style.textDecoration && style.textDecoration !== 'NONE') {
+    value.textDecoration = style.textDecoration.toLowerCase();
+  }
+  return { type: 'typography', value };
+}
+
+function effectToken(effects: Effect[] | undefined): Token | string {
+  const visible = (effects ?? []).filter((effect) => effect.visible !== false);
+  const shadows = visible
+    .filter((effect) => effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW')
+    .map((effect) => ({
+      color: effect.color ? colorToHex(effect.color) : '#000000',
+      offsetX: px(effect.offset?.x ?? 0),
+      offsetY: px(effect.offset?.y ?? 0),
+      blur: px(effect.radius ?? 0),
+      spread: px(effect.spread ?? 0),
+      ...(effect.type === 'INNER_SHADOW' ? { inset: true } : {}),
+    }));
+  if (shadows.length > 0) {
+    return { type: 'shadow', value: shadows.length === 1 ? shadows[0] : shadows };
+  }
+
+  const blur = visible.find((effect) => effect.type.endsWith('_BLUR'));
+  if (blur) {
+    return { type: 'dimension', value: px(blur.radius ?? 0) };
+  }
+  return 'Style has no visible effects';
+}
+
+function styleToken(style: FigmaPublishedStyle, node: SceneNode): Token | string {
+  switch (style.style_type) {
+    case 'FILL':
+      return paintToken((node as any).fills);
+    case 'TEXT':
+      return typographyToken(node.type === 'TEXT' ? node.style : undefined);
+    case 'EFFECT':
+      return effectToken((node as any).effects);
+    default:
+      return `${style.style_type} styles are not supported`;
+  }
+}
+
+function tokenPath(name: string): string[] {
+  return name
+    .split('/')
+    .map((segment) => segment.trim().replace(/[{}.]/g, '-').replace(/^\$+/, ''))
+    .filter(Boolean);
+}
+
+function isToken(entry: any, format: TokenFormat): boolean {
+  return typeof entry === 'object' && entry !== null && (format === 'dtcg' ? '$value' in entry : 'value' in entry);
+}
+
+/**
+ * `name-type`, or `name-type-2`, `name-type-3` and so on, whichever is not
+ * yet used in the group.
+ */
+function freeKey(group: TokenTree, name: string, styleType: string): string {
+  const base = `${name}-${styleType.toLowerCase()}`;
+  let key = base;
+  for (let i = 2; group[key] !== undefined; i++) {
+    key = `${base}-${i}`;
+  }
+  return key;
+}
+
+function insertToken(tree: TokenTree, path: string[], token: TokenTree, styleType: string, format: TokenFormat) {
+  let group = tree;
+  for (const segment of path.slice(0, -1)) {
+    let next = group[segment];
+    if (next === undefined) {
+      next = group[segment] = {};
+    } else if (isToken(next, format)) {
+      // A style is also used as a group name, e.g. "Primary" and "Primary/Light"
+      group[freeKey(group, segment, styleType)] = next;
+      next = group[segment] = {};
+    }
+    group = next;
+  }
+
+  let leaf = path[path.length - 1];
+  if (group[leaf] !== undefined) {
+    // Fill, text and effect styles often share a name, e.g. "Heading/H1"
+    leaf = freeKey(group, leaf, styleType);
+  }
+  group[leaf] = token;
+}
+
+/**
+ * Builds a token tree from published styles and the nodes that define
+ * them, grouped by the slash-separated segments of each style name.
+ */
+export function buildDesignTokens(
+  styles: FigmaPublishedStyle[],
+  nodes: { [id: string]: SceneNode | undefined },
+  format: TokenFormat = 'dtcg'
+): DesignTokens {
+  const tokens: TokenTree = {};
+  const skipped: SkippedStyle[] = [];
+
+  const sorted = [...styles].sort((a, b) => a.name.localeCompare(b.name));
+  for (const style of sorted) {
+    const node = nodes[style.node_id];
+    const path = tokenPath(style.name);
+    const token = node ? styleToken(style, node) : 'Style node could not be loaded';
+    if (typeof token === 'string' || path.length === 0) {
+      skipped.push({
+        name: style.name,
+        styleType: style.style_type,
+        reason: typeof token === 'string' ? token : 'Style has an empty name',
+      });
+      continue;
+    }
+
+    const entry =
+      format === 'dtcg'
+        ? { $type: token.type, $value: token.value, ...(style.description ? { $description: style.description } : {}) }
+        : { type: token.type, value: token.value, ...(style.description ? { comment: style.description } : {}) };
+    insertToken(tokens, path, entry, style.style_type, format);
+  }
+
+  return { tokens, skipped };
+}
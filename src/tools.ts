@@ -0,0 +1,464 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { SUMMARY_LEVELS, SummaryLevel } from './summary.js';
+import { NODE_TYPES } from './types.js';
+
+const fileKey = z.string().min(1).describe('Figma file key');
+/**
+ * A node id as 1:2, or as 1-2 the way Figma URLs write it.
+ */
+export const nodeId = z
+  .string()
+  .min(1)
+  // Figma URLs write node ids with a dash, the API with a colon
+  .transform((id) => id.replace(/-/g, ':'));
+const nodeIds = (description: string) => z.array(nodeId).min(1).describe(description);
+const cursor = z
+  .string()
+  .min(1)
+  .describe('Opaque pagination cursor returned as nextCursor by a previous request with the same arguments');
+const depth = (description: string) => z.number().int().min(1).describe(description);
+const pageSize = (description: string, maximum: number) => z.number().int().min(1).max(maximum).describe(description);
+const maxTokens = (description: string) => z.number().int().min(500).max(200000).describe(description);
+const summaryLevel = (description: string) =>
+  z.enum(SUMMARY_LEVELS as [SummaryLevel, ...SummaryLevel[]]).describe(description);
+const excludeProps = z.array(z.string()).describe('Properties to exclude from node data');
+const resolveImageRefs = z
+  .boolean()
+  .describe('Add an imageFills map from each imageRef in the returned nodes to its download URL');
+const teamId = z.string().min(1).describe('Team ID, as in figma.com/files/team/{team_id}');
+const fileKeyOnly = z.object({ file_key: fileKey }).strict();
+const commentId = (description: string) => z.string().min(1).describe(description);
+const emoji = z.string().min(1).describe('Emoji shortcode, e.g. ":eyes:" or ":+1:"');
+
+const getFileData = z
+  .object({
+    file_key: fileKey,
+    root_node_id: z
+      .union([nodeId, z.array(nodeId).min(1)])
+      .describe('Only stream the subtree under this node, or under each of these nodes in order. The roots are at depth 1.')
+      .optional(),
+    pageSize: pageSize('Number of nodes per page', 1000).optional(),
+    maxTokens: maxTokens(
+      'Approximate token budget for the returned nodes (defaults to 20000). Each node counts only its own properties; children are listed by id.'
+    ).optional(),
+    nodeTypes: z.array(z.enum(NODE_TYPES)).describe('Filter nodes by type').optional(),
+    cursor: cursor.optional(),
+    depth: depth('Maximum depth to traverse in the node tree (pages are at depth 1)').optional(),
+    excludeProps: excludeProps.optional(),
+    summarizeNodes: z
+      .boolean()
+      .describe('Return compact node summaries to reduce response size (same as summaryLevel "compact")')
+      .optional(),
+    summaryLevel: summaryLevel(
+      'How much of each node to return: ids-only, outline (adds names and child ids), compact (adds bounds, layout, text and primary fill) or full. Summaries list left-out fields in _omitted.'
+    ).optional(),
+    resolveImageRefs: resolveImageRefs.optional(),
+    resolveVariables: z
+      .boolean()
+      .describe("Add a variables map resolving every variable in the nodes' boundVariables to its values per mode")
+      .optional(),
+  })
+  .strict();
+
+const getFileNodes = z
+  .object({
+    file_key: fileKey,
+    ids: nodeIds('Array of node IDs to retrieve'),
+    cursor: cursor.optional(),
+    depth: depth('Maximum depth to traverse below the requested nodes, which are at depth 1').optional(),
+    maxTokens: maxTokens('Approximate token budget for the returned nodes (defaults to 20000)').optional(),
+    excludeProps: excludeProps.optional(),
+    summaryLevel: summaryLevel('How much of each node to return (defaults to full)').optional(),
+    resolveImageRefs: resolveImageRefs.optional(),
+  })
+  .strict();
+
+/**
+ * Every tool, defined once. The schema is both advertised as the tool's
+ * inputSchema and used to validate the arguments of each call. Tools marked
+ * `write` change files and are only offered in read-write mode.
+ */
+export const TOOLS = {
+  get_file_data: {
+    description: 'Get Figma file data with chunking and pagination',
+    schema: getFileData,
+  },
+  get_file_outline: {
+    description:
+      'Get a compact outline of the file: pages, frames and sections with ids, types, names, child counts and bounding boxes',
+    schema: z
+      .object({
+        file_key: fileKey,
+        pages: z.array(z.string().min(1)).describe('Only outline these pages, by id or name').optional(),
+        depth: depth('Maximum depth to outline (pages are at depth 1, defaults to 2)').optional(),
+        format: z.enum(['text', 'json']).describe('Indented text (text, default) or a JSON tree').optional(),
+        collapseInstances: z
+          .boolean()
+          .describe('Collapse consecutive instances of the same component into one entry, e.g. "Button × 42" (defaults to true)')
+          .optional(),
+        cursor: cursor.optional(),
+        pageSize: pageSize('Number of entries per page', 5000).optional(),
+        maxTokens: maxTokens('Approximate token budget for the returned entries (defaults to 20000)').optional(),
+      })
+      .strict(),
+  },
+  search_nodes: {
+    description:
+      'Find nodes by name, type, text, component, fill color, font or ancestor path, with the breadcrumb path to each match',
+    schema: z
+      .object({
+        file_key: fileKey,
+        name: z
+          .string()
+          .min(1)
+          .describe('Case-insensitive glob for the node name, e.g. "Checkout*" (* and ? wildcards)')
+          .optional(),
+        nameRegex: z.string().min(1).describe('Case-insensitive regular expression for the node name').optional(),
+        type: z
+          .union([z.enum(NODE_TYPES), z.array(z.enum(NODE_TYPES)).min(1)])
+          .describe('Node type or types, e.g. "FRAME" or ["TEXT", "INSTANCE"]')
+          .optional(),
+        text: z
+          .string()
+          .min(1)
+          .describe("Case-insensitive substring of the characters of a text, sticky, shape, connector or table cell")
+          .optional(),
+        componentId: nodeId.describe('Component id; matches its instances and the component itself').optional(),
+        fillColor: z
+          .string()
+          .regex(/^#([0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/, 'Expected a color as #rrggbb or #rrggbbaa')
+          .describe('Visible solid fill color as #rrggbb or #rrggbbaa')
+          .optional(),
+        fontFamily: z.string().min(1).describe('Font family of a text node, including mixed styles').optional(),
+        fontSize: z.number().positive().describe('Font size of a text node in px, including mixed styles').optional(),
+        ancestorPath: z
+          .string()
+          .min(1)
+          .describe(
+            'Glob over ancestor names joined with "/", e.g. "Home/Checkout" or "**/Form". Matches nodes anywhere inside a matching ancestor; * stays within one name, ** spans several'
+          )
+          .optional(),
+        cursor: cursor.optional(),
+        depth: depth('Maximum depth to search (pages are at depth 1)').optional(),
+        pageSize: pageSize('Maximum number of matches per page', 1000).optional(),
+        maxTokens: maxTokens('Approximate token budget for the returned matches (defaults to 20000)').optional(),
+      })
+      .strict(),
+  },
+  list_team_projects: {
+    description: 'List the projects of a Figma team that the current user can see',
+    schema: z
+      .object({
+        team_id: teamId,
+        cursor: cursor.optional(),
+        pageSize: pageSize('Maximum number of projects per page (defaults to 100)', 1000).optional(),
+      })
+      .strict(),
+  },
+  list_project_files: {
+    description: 'List the files of a Figma project with their thumbnails and last modified dates, newest first',
+    schema: z
+      .object({
+        project_id: z.string().min(1).describe('Project ID, as listed by list_team_projects'),
+        branch_data: z.boolean().describe("Include each file's branches").optional(),
+        cursor: cursor.optional(),
+        pageSize: pageSize('Maximum number of files per page (defaults to 100)', 1000).optional(),
+      })
+      .strict(),
+  },
+  find_file: {
+    description: 'Find files by name across all projects of a Figma team',
+    schema: z
+      .object({
+        team_id: teamId,
+        query: z.string().trim().min(1).describe('Text the file name contains, case-insensitive'),
+        cursor: cursor.optional(),
+        pageSize: pageSize('Maximum number of files per page (defaults to 50)', 1000).optional(),
+      })
+      .strict(),
+  },
+  get_file_versions: {
+    description: 'Get version history of a Figma file',
+    schema: fileKeyOnly,
+  },
+  diff_file_versions: {
+    description:
+      'Compare two versions of a file and report added, removed, moved and renamed nodes and changes to fills, text, typography, layout and size',
+    schema: z
+      .object({
+        file_key: fileKey,
+        from_version: z.string().min(1).describe('Version id to compare from, as listed by get_file_versions'),
+        to_version: z
+          .string()
+          .min(1)
+          .describe('Version id to compare to (defaults to the current version of the file)')
+          .optional(),
+        groupBy: z
+          .enum(['page', 'frame', 'none'])
+          .describe('Group changes by page (default), by top-level frame, or return a flat list')
+          .optional(),
+        cursor: cursor.optional(),
+        pageSize: pageSize('Maximum number of changes per page', 1000).optional(),
+        maxTokens: maxTokens('Approximate token budget for the returned changes (defaults to 20000)').optional(),
+      })
+      .strict(),
+  },
+  get_file_comments: {
+    description:
+      'Get the comment threads of a Figma file, oldest first, with the node each thread is pinned to and its path. Filter by status, author, date or node.',
+    schema: z
+      .object({
+        file_key: fileKey,
+        status: z
+          .enum(['all', 'resolved', 'unresolved'])
+          .describe('Only resolved or only unresolved threads (defaults to all)')
+          .optional(),
+        author: z.string().min(1).describe('Only threads with a comment by this user handle').optional(),
+        since: z
+          .string()
+          .min(1)
+          .describe('Only threads with a comment at or after this ISO date or timestamp')
+          .optional(),
+        until: z
+          .string()
+          .min(1)
+          .describe('Only threads with a comment at or before this ISO date (inclusive of the whole day) or timestamp')
+          .optional(),
+        node_id: nodeId.describe('Only threads pinned to this node or any node inside it').optional(),
+        format: z.enum(['json', 'markdown']).describe('JSON threads (json, default) or markdown').optional(),
+        cursor: cursor.optional(),
+        pageSize: pageSize('Maximum number of threads per page (defaults to 50)', 500).optional(),
+        maxTokens: maxTokens('Approximate token budget for the returned threads (defaults to 20000)').optional(),
+      })
+      .strict(),
+  },
+  get_components: {
+    description: 'Get components from a Figma file',
+    schema: fileKeyOnly,
+  },
+  get_styles: {
+    description: 'Get styles from a Figma file',
+    schema: fileKeyOnly,
+  },
+  get_team_components: {
+    description:
+      'Get the published components of a team library with their containing frame, thumbnail, component set and variant properties',
+    schema: z
+      .object({
+        team_id: teamId,
+        groupBySet: z
+          .boolean()
+          .describe('Group the variants on each page by component set, with the values of each variant property')
+          .optional(),
+        cursor: cursor.optional(),
+        pageSize: pageSize('Number of components per page (defaults to 100)', 1000).optional(),
+      })
+      .strict(),
+  },
+  get_team_component_sets: {
+    description: 'Get the published component sets of a team library',
+    schema: z
+      .object({
+        team_id: teamId,
+        cursor: cursor.optional(),
+        pageSize: pageSize('Number of component sets per page (defaults to 100)', 1000).optional(),
+      })
+      .strict(),
+  },
+  get_team_styles: {
+    description: 'Get the published styles of a team library',
+    schema: z
+      .object({
+        team_id: teamId,
+        cursor: cursor.optional(),
+        pageSize: pageSize('Number of styles per page (defaults to 100)', 1000).optional(),
+      })
+      .strict(),
+  },
+  get_component: {
+    description: 'Get a published component by its key, e.g. the key of a remote component in a file',
+    schema: z
+      .object({
+        key: z.string().min(1).describe('Component key'),
+      })
+      .strict(),
+  },
+  get_file_nodes: {
+    description: 'Get specific nodes and their subtrees from a Figma file, paginated like get_file_data',
+    schema: getFileNodes,
+  },
+  get_image_fills: {
+    description:
+      'Resolve the image fills (imageRef hashes) of a Figma file to download URLs and the nodes that use them',
+    schema: z
+      .object({
+        file_key: fileKey,
+        imageRefs: z.array(z.string().min(1)).describe('Only resolve these imageRefs').optional(),
+        includeDetails: z.boolean().describe('Also report the content type and size of each image').optional(),
+      })
+      .strict(),
+  },
+  export_node_images: {
+    description: 'Render nodes to PNG, JPG, SVG or PDF and return the image URLs, optionally with the image data',
+    schema: z
+      .object({
+        file_key: fileKey,
+        ids: nodeIds('Array of node IDs to render'),
+        format: z.enum(['png', 'jpg', 'svg', 'pdf']).default('png').describe('Image format (defaults to png)'),
+        scale: z.number().min(0.01).max(4).default(1).describe('Image scale factor (defaults to 1)'),
+        svgIncludeId: z.boolean().describe('Include node ids as id attributes in SVG output').optional(),
+        svgSimplifyStroke: z.boolean().describe('Simplify inside and outside strokes in SVG output').optional(),
+        svgOutlineText: z.boolean().describe('Render text as outlined paths in SVG output').optional(),
+        useExportSettings: z
+          .boolean()
+          .describe('Render each node with its own export settings, falling back to format and scale for nodes without any')
+          .optional(),
+        download: z.boolean().describe('Download the rendered images and return them as content blocks').optional(),
+      })
+      .strict(),
+  },
+  get_local_variables: {
+    description:
+      'Get the local variables of a Figma file grouped by collection, with values per mode and aliases resolved',
+    schema: fileKeyOnly,
+  },
+  get_published_variables: {
+    description: 'Get the variables and collections a Figma file publishes to its library',
+    schema: fileKeyOnly,
+  },
+  extract_design_tokens: {
+    description: 'Extract the values of published color, text and effect styles as a design token tree',
+    schema: z
+      .object({
+        file_key: fileKey,
+        format: z
+          .enum(['dtcg', 'style-dictionary'])
+          .default('dtcg')
+          .describe('W3C Design Tokens (dtcg, default) or Style Dictionary JSON'),
+      })
+      .strict(),
+  },
+  generate_code: {
+    description: 'Generate HTML/CSS or React + Tailwind code for a node and its children',
+    schema: z
+      .object({
+        file_key: fileKey,
+        node_id: nodeId.describe('ID of the frame or component to convert'),
+        target: z
+          .enum(['html', 'react-tailwind'])
+          .default('html')
+          .describe('Plain HTML and CSS (html, default) or a React component with Tailwind classes'),
+      })
+      .strict(),
+  },
+  clear_cache: {
+    description: 'Clear cached Figma file snapshots of files these credentials have accessed',
+    schema: z
+      .object({
+        file_key: z
+          .string()
+          .min(1)
+          .describe('Only clear this file (clears every file accessed in this session when omitted)')
+          .optional(),
+      })
+      .strict(),
+  },
+  post_comment: {
+    description:
+      'Post a comment on a file, optionally pinned to a node, or reply to a comment with parent_id. Requires read-write mode.',
+    write: true,
+    schema: z
+      .object({
+        file_key: fileKey,
+        message: z.string().min(1).describe('Comment text'),
+        node_id: nodeId.describe('Pin the comment to this node').optional(),
+        node_offset: z
+          .object({ x: z.number(), y: z.number() })
+          .strict()
+          .describe('Position of the pin relative to the top-left corner of the node (defaults to 0, 0)')
+          .optional(),
+        parent_id: commentId('Reply to this comment instead of starting a thread').optional(),
+      })
+      .strict()
+      .superRefine((args, ctx) => {
+        if (args.node_offset && !args.node_id) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['node_offset'], message: 'Requires node_id' });
+        }
+        if (args.parent_id && args.node_id) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['node_id'], message: 'Replies cannot be pinned to a node' });
+        }
+      }),
+  },
+  delete_comment: {
+    description: 'Delete a comment you posted. Requires read-write mode.',
+    write: true,
+    schema: z.object({ file_key: fileKey, comment_id: commentId('ID of the comment to delete') }).strict(),
+  },
+  add_comment_reaction: {
+    description: 'Add an emoji reaction to a comment. Requires read-write mode.',
+    write: true,
+    schema: z.object({ file_key: fileKey, comment_id: commentId('ID of the comment'), emoji }).strict(),
+  },
+  remove_comment_reaction: {
+    description: 'Remove your emoji reaction from a comment. Requires read-write mode.',
+    write: true,
+    schema: z.object({ file_key: fileKey, comment_id: commentId('ID of the comment'), emoji }).strict(),
+  },
+  whoami: {
+    description: 'Show which Figma account the current credentials belong to and how they authenticate',
+    schema: z.object({}).strict(),
+  },
+};
+
+export type ToolName = keyof typeof TOOLS;
+export type ToolArgs<N extends ToolName> = z.infer<(typeof TOOLS)[N]['schema']>;
+
+export function isWriteTool(name: string): boolean {
+  return Boolean((TOOLS as { [name: string]: { write?: boolean } })[name]?.write);
+}
+
+/**
+ * The tool list advertised in response to tools/list.
+ */
+export function listTools(readWrite: boolean) {
+  return Object.entries(TOOLS)
+    .filter(([name]) => readWrite || !isWriteTool(name))
+    .map(([name, tool]) => {
+      const { $schema, ...inputSchema } = zodToJsonSchema(tool.schema, { $refStrategy: 'none' }) as any;
+      return { name, description: tool.description, inputSchema };
+    });
+}
+
+export function describeIssue(issue: z.ZodIssue): string {
+  if (issue.code === 'invalid_union') {
+    // Report the branch that got furthest instead of a bare "Invalid input"
+    const nested = issue.unionErrors
+      .flatMap((error) => error.issues)
+      .filter((nestedIssue) => nestedIssue.path.length > issue.path.length || nestedIssue.code !== 'invalid_type');
+    if (nested.length > 0) {
+      return nested.map(describeIssue).join('; ');
+    }
+  }
+  if (issue.code === 'unrecognized_keys') {
+    return `Unknown argument${issue.keys.length > 1 ? 's' : ''}: ${issue.keys.join(', ')}`;
+  }
+  const path = issue.path.join('.');
+  return path ? `${path}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Validates the arguments of a call against the tool's schema and applies
+ * its defaults. Invalid arguments are rejected with InvalidParams.
+ */
+export function parseArguments<N extends ToolName>(name: N, args: unknown): ToolArgs<N> {
+  const result = TOOLS[name].schema.safeParse(args ?? {});
+  if (!result.success) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid arguments for ${name}: ${result.error.issues.map(describeIssue).join('; ')}`
+    );
+  }
+  return result.data as ToolArgs<N>;
+}
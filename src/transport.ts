@@ -0,0 +1,250 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { ErrorCode, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { FigmaCredentials, credentialsFromHeaders } from './auth.js';
+import type { TransportConfig } from './config.js';
+import { FigmaAuthError } from './errors.js';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const SHUTDOWN_TIMEOUT_MS = 5000;
+
+/**
+ * One connected client. Every session gets its own Server so that
+ * request state and Figma credentials never leak between clients.
+ */
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  openRequests: number; // including open GET and SSE streams
+  lastActive: number;
+}
+
+export interface HttpTransportHandle {
+  url: string;
+  close(): Promise<void>;
+}
+
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+function sendError(res: ServerResponse, status: number, code: number, message: string, headers: http.OutgoingHttpHeaders = {}) {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, ErrorCode.InvalidRequest, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw new HttpError(400, ErrorCode.ParseError, 'Parse error: request body is not valid JSON');
+  }
+}
+
+function isAuthorized(req: IncomingMessage, authToken: string | undefined): boolean {
+  if (!authToken) return true;
+  const header = req.headers.authorization ?? '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+  const given = Buffer.from(match[1]);
+  const expected = Buffer.from(authToken);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Counts the request as activity on the session until its response closes.
+ */
+function track(session: Session, res: ServerResponse) {
+  session.openRequests++;
+  session.lastActive = Date.now();
+  res.on('close', () => {
+    session.openRequests--;
+    session.lastActive = Date.now();
+  });
+}
+
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+/**
+ * Serves MCP over HTTP: Streamable HTTP on /mcp, and the legacy SSE
+ * transport (GET /sse, POST /messages) for older clients.
+ */
+export async function startHttpTransport(
+  createServer: (credentials?: FigmaCredentials) => Server,
+  config: TransportConfig
+): Promise<HttpTransportHandle> {
+  const sessions = new Map<string, Session>();
+
+  if (!config.authToken && !isLoopback(config.host)) {
+    console.error(
+      `[MCP Error] Listening on ${config.host} without MCP_AUTH_TOKEN. Any client that can reach this port can use your Figma token.`
+    );
+  }
+
+  const closeSession = async (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    console.debug('[MCP Debug] Session closed', { sessionId });
+    await session.server.close().catch((error) => console.error('[MCP Error] Failed to close session', error));
+  };
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse) => {
+    const header = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        throw new HttpError(404, ErrorCode.ConnectionClosed, `Session ${sessionId} not found`);
+      }
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        throw new HttpError(400, ErrorCode.InvalidRequest, `Session ${sessionId} uses the SSE transport`);
+      }
+      track(session, res);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      throw new HttpError(400, ErrorCode.InvalidRequest, 'Bad Request: missing mcp-session-id header');
+    }
+
+    const server = createServer(credentialsFromHeaders(req.headers));
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport, openRequests: 0, lastActive: Date.now() });
+        console.debug('[MCP Debug] Session started', { sessionId: id, transport: 'streamable-http' });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) void closeSession(transport.sessionId);
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSse = async (req: IncomingMessage, res: ServerResponse) => {
+    const server = createServer(credentialsFromHeaders(req.headers));
+    const transport = new SSEServerTransport('/messages', res);
+    const session: Session = { server, transport, openRequests: 0, lastActive: Date.now() };
+    sessions.set(transport.sessionId, session);
+    track(session, res);
+    console.debug('[MCP Debug] Session started', { sessionId: transport.sessionId, transport: 'sse' });
+    res.on('close', () => void closeSession(transport.sessionId));
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const sessionId = url.searchParams.get('sessionId') ?? '';
+    const session = sessions.get(sessionId);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      throw new HttpError(404, ErrorCode.ConnectionClosed, `Session ${sessionId} not found`);
+    }
+    track(session, res);
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+    try {
+      if (!isAuthorized(req, config.authToken)) {
+        sendError(res, 401, ErrorCode.InvalidRequest, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+        return;
+      }
+      if (url.pathname === '/mcp' && ['GET', 'POST', 'DELETE'].includes(req.method ?? '')) {
+        await handleStreamable(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSse(req, res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendError(res, 404, ErrorCode.MethodNotFound, `No route for ${req.method} ${url.pathname}`);
+      }
+    } catch (error: any) {
+      if (error instanceof HttpError) {
+        sendError(res, error.status, error.code, error.message);
+        return;
+      }
+      if (error instanceof FigmaAuthError) {
+        sendError(res, 401, ErrorCode.InvalidRequest, error.message);
+        return;
+      }
+      console.error('[MCP Error] HTTP request failed', {
+        method: req.method,
+        path: url.pathname,
+        message: error?.message,
+      });
+      sendError(res, 500, ErrorCode.InternalError, 'Internal server error');
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  // Clients that go away without a DELETE would otherwise keep their session,
+  // and its resource polling, forever
+  const idleMs = config.sessionIdleSeconds * 1000;
+  const expiry = idleMs > 0
+    ? setInterval(() => {
+        const now = Date.now();
+        for (const [sessionId, session] of sessions) {
+          if (session.openRequests === 0 && now - session.lastActive > idleMs) {
+            console.debug('[MCP Debug] Session expired', { sessionId, idleSeconds: config.sessionIdleSeconds });
+            void closeSession(sessionId);
+          }
+        }
+      }, Math.min(idleMs, 60000))
+    : undefined;
+  expiry?.unref();
+
+  const address = httpServer.address();
+  const port = address && typeof address === 'object' ? address.port : config.port;
+  const url = `http://${config.host.includes(':') ? `[${config.host}]` : config.host}:${port}`;
+  console.debug('[MCP Debug] Figma MCP server listening', { mcp: `${url}/mcp`, sse: `${url}/sse` });
+
+  return {
+    url,
+    async close() {
+      console.debug('[MCP Debug] Shutting down HTTP transport', { sessions: sessions.size });
+      clearInterval(expiry);
+      const closed = new Promise<void>((resolve) => httpServer.close(() => resolve()));
+      await Promise.all([...sessions.keys()].map(closeSession));
+      // SSE and standalone GET streams stay open until their sessions are closed
+      httpServer.closeAllConnections();
+      await Promise.race([closed, new Promise<void>((resolve) => setTimeout(resolve, SHUTDOWN_TIMEOUT_MS).unref())]);
+    },
+  };
+}
@@ -108,6 +108,8 @@ export interface BaseNode {
   name: string;
   visible?: boolean;
   type: string;
+  absoluteBoundingBox?: Rectangle;
+  boundVariables?: { [field: string]: VariableAlias | VariableAlias[] | { [key: string]: VariableAlias } };
   pluginData?: { [key: string]: any };
   sharedPluginData?: { [namespace: string]: { [key: string]: any } };
 }
@@ -121,115 +123,188 @@ export interface DocumentNode extends BaseNode {
 }
 
 /**
- * Represents a canvas/artboard in a Figma document.
+ * Every node type the REST API returns below the document.
  */
-export interface CanvasNode extends BaseNode {
-  type: 'CANVAS';
-  children: SceneNode[];
-  backgroundColor: Color;
-  exportSettings?: ExportSetting[];
-}
+export const NODE_TYPES = [
+  'CANVAS',
+  'FRAME',
+  'GROUP',
+  'SECTION',
+  'COMPONENT',
+  'COMPONENT_SET',
+  'INSTANCE',
+  'VECTOR',
+  'BOOLEAN_OPERATION',
+  'STAR',
+  'LINE',
+  'ELLIPSE',
+  'RECTANGLE',
+  'REGULAR_POLYGON',
+  'TEXT',
+  'SLICE',
+  'STICKY',
+  'CONNECTOR',
+  'SHAPE_WITH_TEXT',
+  'TABLE',
+  'TABLE_CELL',
+  'WIDGET',
+  'EMBED',
+  'LINK_UNFURL',
+  'WASHI_TAPE',
+] as const;
+
+export type NodeType = (typeof NODE_TYPES)[number];
 
 /**
- * Represents a frame in Figma, which can contain other nodes.
+ * Properties of nodes that are placed on a canvas or inside a frame.
  */
-export interface FrameNode extends BaseNode {
-  type: 'FRAME';
-  children: SceneNode[];
+export interface LayoutMixin {
   locked?: boolean;
-  background: Paint[];
-  backgroundColor?: Color;
   exportSettings?: ExportSetting[];
   blendMode?: BlendMode;
+  opacity?: number;
+  rotation?: number;
   preserveRatio?: boolean;
   constraints?: LayoutConstraint;
-  layoutAlign?: 'MIN' | 'CENTER' | 'MAX' | 'STRETCH';
+  layoutAlign?: 'INHERIT' | 'MIN' | 'CENTER' | 'MAX' | 'STRETCH';
   layoutGrow?: number;
+  layoutPositioning?: 'AUTO' | 'ABSOLUTE';
+  layoutSizingHorizontal?: 'FIXED' | 'HUG' | 'FILL';
+  layoutSizingVertical?: 'FIXED' | 'HUG' | 'FILL';
+  absoluteRenderBounds?: Rectangle | null;
+}
+
+/**
+ * Fill, stroke and effect properties of nodes that are drawn.
+ */
+export interface GeometryMixin {
+  fills?: Paint[];
+  strokes?: Paint[];
+  strokeWeight?: number;
+  strokeAlign?: 'INSIDE' | 'OUTSIDE' | 'CENTER';
+  strokeDashes?: number[];
+  effects?: Effect[];
+  styles?: { [styleType: string]: string };
+}
+
+/**
+ * Corner properties of frames and rectangles.
+ */
+export interface CornerMixin {
+  cornerRadius?: number;
+  rectangleCornerRadii?: [number, number, number, number];
+}
+
+/**
+ * Auto-layout properties of frames, components and instances.
+ */
+export interface AutoLayoutMixin {
   clipsContent?: boolean;
   layoutMode?: 'NONE' | 'HORIZONTAL' | 'VERTICAL';
+  layoutWrap?: 'NO_WRAP' | 'WRAP';
   primaryAxisSizingMode?: 'FIXED' | 'AUTO';
   counterAxisSizingMode?: 'FIXED' | 'AUTO';
   primaryAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX' | 'SPACE_BETWEEN';
-  counterAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX';
+  counterAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX' | 'BASELINE';
+  counterAxisAlignContent?: 'AUTO' | 'SPACE_BETWEEN';
   paddingLeft?: number;
   paddingRight?: number;
   paddingTop?: number;
   paddingBottom?: number;
   itemSpacing?: number;
+  counterAxisSpacing?: number;
+}
+
+/**
+ * Vector paths of shapes.
+ */
+export interface VectorPathMixin {
+  strokeCap?: 'NONE' | 'ROUND' | 'SQUARE' | 'LINE_ARROW' | 'TRIANGLE_ARROW';
+  strokeJoin?: 'MITER' | 'BEVEL' | 'ROUND';
+  strokeMiterLimit?: number;
+  strokeGeometry?: Path[];
+  fillGeometry?: Path[];
+}
+
+/**
+ * Represents the definition of a component property on a component or component set.
+ */
+export interface ComponentPropertyDefinition {
+  type: 'BOOLEAN' | 'INSTANCE_SWAP' | 'TEXT' | 'VARIANT';
+  defaultValue: boolean | string;
+  variantOptions?: string[];
+  preferredValues?: { type: 'COMPONENT' | 'COMPONENT_SET'; key: string }[];
+}
+
+/**
+ * Represents the value of a component property on an instance.
+ */
+export interface ComponentProperty {
+  type: 'BOOLEAN' | 'INSTANCE_SWAP' | 'TEXT' | 'VARIANT';
+  value: boolean | string;
+  preferredValues?: { type: 'COMPONENT' | 'COMPONENT_SET'; key: string }[];
+  boundVariables?: { value?: VariableAlias };
+}
+
+/**
+ * Represents a canvas/artboard in a Figma document.
+ */
+export interface CanvasNode extends BaseNode {
+  type: 'CANVAS';
+  children: SceneNode[];
+  backgroundColor: Color;
+  exportSettings?: ExportSetting[];
+}
+
+/**
+ * Represents a frame in Figma, which can contain other nodes.
+ */
+export interface FrameNode extends BaseNode, LayoutMixin, GeometryMixin, CornerMixin, AutoLayoutMixin {
+  type: 'FRAME';
+  children: SceneNode[];
+  background: Paint[];
+  backgroundColor?: Color;
 }
 
 /**
  * Represents a group of nodes in Figma.
  */
-export interface GroupNode extends BaseNode {
+export interface GroupNode extends BaseNode, LayoutMixin, GeometryMixin {
   type: 'GROUP';
   children: SceneNode[];
-  locked?: boolean;
-  exportSettings?: ExportSetting[];
-  blendMode?: BlendMode;
-  preserveRatio?: boolean;
-  constraints?: LayoutConstraint;
-  layoutAlign?: 'MIN' | 'CENTER' | 'MAX' | 'STRETCH';
-  layoutGrow?: number;
+}
+
+/**
+ * Represents a section, which organizes top-level frames on a canvas.
+ */
+export interface SectionNode extends BaseNode, GeometryMixin {
+  type: 'SECTION';
+  children: SceneNode[];
+  sectionContentsHidden?: boolean;
+  devStatus?: { type: 'NONE' | 'READY_FOR_DEV' | 'COMPLETED'; description?: string };
 }
 
 /**
  * Represents a vector node in Figma.
  */
-export interface VectorNode extends BaseNode {
+export interface VectorNode extends BaseNode, LayoutMixin, GeometryMixin, CornerMixin, VectorPathMixin {
   type: 'VECTOR';
-  locked?: boolean;
-  exportSettings?: ExportSetting[];
-  blendMode?: BlendMode;
-  preserveRatio?: boolean;
-  constraints?: LayoutConstraint;
-  layoutAlign?: 'MIN' | 'CENTER' | 'MAX' | 'STRETCH';
-  layoutGrow?: number;
-  strokeWeight?: number;
-  strokeAlign?: 'INSIDE' | 'OUTSIDE' | 'CENTER';
-  strokeCap?: 'NONE' | 'ROUND' | 'SQUARE' | 'LINE_ARROW' | 'TRIANGLE_ARROW';
-  strokeJoin?: 'MITER' | 'BEVEL' | 'ROUND';
-  strokeMiterLimit?: number;
-  strokeGeometry?: Path[];
-  fillGeometry?: Path[];
-  fills?: Paint[];
-  strokes?: Paint[];
-  effects?: Effect[];
 }
 
 /**
  * Represents a boolean operation (union, intersection, etc.) between shapes.
  */
-export interface BooleanOperationNode extends BaseNode {
+export interface BooleanOperationNode extends BaseNode, LayoutMixin, GeometryMixin {
   type: 'BOOLEAN_OPERATION';
   children: SceneNode[];
-  locked?: boolean;
-  exportSettings?: ExportSetting[];
-  blendMode?: BlendMode;
-  preserveRatio?: boolean;
-  constraints?: LayoutConstraint;
-  layoutAlign?: 'MIN' | 'CENTER' | 'MAX' | 'STRETCH';
-  layoutGrow?: number;
   booleanOperation: 'UNION' | 'INTERSECT' | 'SUBTRACT' | 'EXCLUDE';
 }
 
 /**
  * Represents a star shape in Figma.
  */
-export interface StarNode extends BaseNode {
+export interface StarNode extends BaseNode, LayoutMixin, GeometryMixin, CornerMixin, VectorPathMixin {
   type: 'STAR';
-  locked?: boolean;
-  exportSettings?: ExportSetting[];
-  blendMode?: BlendMode;
-  preserveRatio?: boolean;
-  constraints?: LayoutConstraint;
-  layoutAlign?: 'MIN' | 'CENTER' | 'MAX' | 'STRETCH';
-  layoutGrow?: number;
-  fills?: Paint[];
-  strokes?: Paint[];
-  strokeWeight?: number;
-  strokeAlign?: 'INSIDE' | 'OUTSIDE' | 'CENTER';
-  effects?: Effect[];
   pointCount: number;
   innerRadius: number;
 }
@@ -237,70 +312,150 @@ export interface StarNode extends BaseNode {
 /**
  * Represents a line in Figma.
  */
-export interface LineNode extends BaseNode {
+export interface LineNode extends BaseNode, LayoutMixin, GeometryMixin, VectorPathMixin {
   type: 'LINE';
-  locked?: boolean;
-  exportSettings?: ExportSetting[];
-  blendMode?: BlendMode;
-  preserveRatio?: boolean;
-  constraints?: LayoutConstraint;
-  layoutAlign?: 'MIN' | 'CENTER' | 'MAX' | 'STRETCH';
-  layoutGrow?: number;
-  strokes?: Paint[];
-  strokeWeight?: number;
-  strokeAlign?: 'INSIDE' | 'OUTSIDE' | 'CENTER';
-  strokeCap?: 'NONE' | 'ROUND' | 'SQUARE' | 'LINE_ARROW' | 'TRIANGLE_ARROW';
-  effects?: Effect[];
+}
+
+/**
+ * Represents an ellipse, which may be an arc or a ring.
+ */
+export interface EllipseNode extends BaseNode, LayoutMixin, GeometryMixin, VectorPathMixin {
+  type: 'ELLIPSE';
+  arcData?: { startingAngle: number; endingAngle: number; innerRadius: number };
+}
+
+/**
+ * Represents a rectangle in Figma.
+ */
+export interface RectangleNode extends BaseNode, LayoutMixin, GeometryMixin, CornerMixin, VectorPathMixin {
+  type: 'RECTANGLE';
+}
+
+/**
+ * Represents a regular polygon in Figma.
+ */
+export interface RegularPolygonNode extends BaseNode, LayoutMixin, GeometryMixin, CornerMixin, VectorPathMixin {
+  type: 'REGULAR_POLYGON';
+  pointCount?: number;
 }
 
 /**
  * Represents a text node in Figma.
  */
-export interface TextNode extends BaseNode {
+export interface TextNode extends BaseNode, LayoutMixin, GeometryMixin {
   type: 'TEXT';
-  locked?: boolean;
-  exportSettings?: ExportSetting[];
-  blendMode?: BlendMode;
-  preserveRatio?: boolean;
-  constraints?: LayoutConstraint;
-  layoutAlign?: 'MIN' | 'CENTER' | 'MAX' | 'STRETCH';
-  layoutGrow?: number;
   characters: string;
   style: TypeStyle;
   characterStyleOverrides?: number[];
   styleOverrideTable?: { [index: number]: TypeStyle };
 }
 
+/**
+ * Represents a slice, a region of the canvas marked for export.
+ */
+export interface SliceNode extends BaseNode {
+  type: 'SLICE';
+  exportSettings?: ExportSetting[];
+}
+
 /**
  * Represents a component definition in Figma.
  */
-export interface ComponentNode extends BaseNode {
+export interface ComponentNode extends BaseNode, LayoutMixin, GeometryMixin, CornerMixin, AutoLayoutMixin {
   type: 'COMPONENT';
   children: SceneNode[];
-  locked?: boolean;
-  exportSettings?: ExportSetting[];
-  blendMode?: BlendMode;
-  preserveRatio?: boolean;
-  constraints?: LayoutConstraint;
-  layoutAlign?: 'MIN' | 'CENTER' | 'MAX' | 'STRETCH';
-  layoutGrow?: number;
   componentId: string;
+  componentPropertyDefinitions?: { [name: string]: ComponentPropertyDefinition };
+}
+
+/**
+ * Represents a set of variants of one component.
+ */
+export interface ComponentSetNode extends BaseNode, LayoutMixin, GeometryMixin, CornerMixin, AutoLayoutMixin {
+  type: 'COMPONENT_SET';
+  children: SceneNode[];
+  componentPropertyDefinitions?: { [name: string]: ComponentPropertyDefinition };
 }
 
 /**
  * Represents an instance of a component in Figma.
  */
-export interface InstanceNode extends BaseNode {
+export interface InstanceNode extends BaseNode, LayoutMixin, GeometryMixin, CornerMixin, AutoLayoutMixin {
   type: 'INSTANCE';
   children: SceneNode[];
-  locked?: boolean;
-  exportSettings?: ExportSetting[];
-  blendMode?: BlendMode;
-  preserveRatio?: boolean;
-  constraints?: LayoutConstraint;
-  layoutAlign?: 'MIN' | 'CENTER' | 'MAX' | 'STRETCH';
-  layoutGrow?: number;
   componentId: string;
+  componentProperties?: { [name: string]: ComponentProperty };
+  overrides?: { id: string; overriddenFields: string[] }[];
+  isExposedInstance?: boolean;
+  exposedInstances?: string[];
+}
+
+/**
+ * Represents a FigJam sticky note.
+ */
+export interface StickyNode extends BaseNode, LayoutMixin, GeometryMixin {
+  type: 'STICKY';
+  characters: string;
+  authorVisible?: boolean;
+  backgroundColor?: Color;
+}
+
+/**
+ * Represents a FigJam connector between two nodes or positions.
+ */
+export interface ConnectorNode extends BaseNode, LayoutMixin, GeometryMixin {
+  type: 'CONNECTOR';
+  characters?: string;
+  connectorStart?: { endpointNodeId?: string; position?: Vector; magnet?: string };
+  connectorEnd?: { endpointNodeId?: string; position?: Vector; magnet?: string };
+  connectorStartStrokeCap?: string;
+  connectorEndStrokeCap?: string;
+  connectorLineType?: 'ELBOWED' | 'STRAIGHT' | 'CURVED';
+  textBackground?: Paint[];
+  style?: TypeStyle;
+}
+
+/**
+ * Represents a FigJam shape with text inside it.
+ */
+export interface ShapeWithTextNode extends BaseNode, LayoutMixin, GeometryMixin, CornerMixin {
+  type: 'SHAPE_WITH_TEXT';
+  shapeType: string;
+  characters?: string;
+  style?: TypeStyle;
+}
+
+/**
+ * Represents a FigJam table. Its children are the table cells.
+ */
+export interface TableNode extends BaseNode, LayoutMixin, GeometryMixin {
+  type: 'TABLE';
+  children: SceneNode[];
+}
+
+/**
+ * Represents one cell of a FigJam table.
+ */
+export interface TableCellNode extends BaseNode, GeometryMixin {
+  type: 'TABLE_CELL';
+  characters?: string;
+  style?: TypeStyle;
+}
+
+/**
+ * Represents a widget. Its children are the nodes the widget renders.
+ */
+export interface WidgetNode extends BaseNode, LayoutMixin {
+  type: 'WIDGET';
+  children: SceneNode[];
+}
+
+/**
+ * Represents a FigJam embed, link preview or washi tape. The REST API
+ * returns no type-specific properties for these.
+ */
+export interface FigJamMediaNode extends BaseNode, LayoutMixin, GeometryMixin {
+  type: 'EMBED' | 'LINK_UNFURL' | 'WASHI_TAPE';
 }
 
 /**
@@ -349,16 +504,29 @@ export interface ExportSetting {
  * Union type of all possible node types in a Figma scene.
  */
 export type SceneNode =
+  | CanvasNode
   | FrameNode
   | GroupNode
+  | SectionNode
+  | ComponentNode
+  | ComponentSetNode
+  | InstanceNode
   | VectorNode
   | BooleanOperationNode
   | StarNode
   | LineNode
+  | EllipseNode
+  | RectangleNode
+  | RegularPolygonNode
   | TextNode
-  | ComponentNode
-  | InstanceNode
-  | CanvasNode;
+  | SliceNode
+  | StickyNode
+  | ConnectorNode
+  | ShapeWithTextNode
+  | TableNode
+  | TableCellNode
+  | WidgetNode
+  | FigJamMediaNode;
 
 /**
  * Represents a Figma file metadata.
@@ -368,7 +536,16 @@ export interface FigmaFile {
   name: string;
   lastModified: string;
   thumbnailUrl: string;
-  version: string;
+  version?: string; // not included in project file listings
+  branches?: FigmaFile[];
+}
+
+/**
+ * Represents a project in a Figma team.
+ */
+export interface FigmaProject {
+  id: string;
+  name: string;
 }
 
 /**
@@ -411,6 +588,20 @@ export interface FigmaComment {
     };
   } | null;
   order_id: string;
+  reactions?: FigmaCommentReaction[];
+}
+
+/**
+ * Represents an emoji reaction to a comment.
+ */
+export interface FigmaCommentReaction {
+  user: {
+    id: string;
+    handle: string;
+    img_url: string;
+  };
+  emoji: string;
+  created_at: string;
 }
 
 /**
@@ -422,6 +613,37 @@ export interface FigmaComponent {
   description?: string;
   componentSetId?: string;
   documentationLinks?: string[];
+  fileKey?: string;
+  nodeId?: string;
+  thumbnailUrl?: string;
+  updatedAt?: string;
+  containingFrame?: FigmaContainingFrame;
+  componentSet?: { nodeId: string; name: string };
+  variantProperties?: { [property: string]: string }; // parsed from "Size=Large, State=Hover"
+}
+
+/**
+ * Represents a published component set, whose components are its variants.
+ */
+export interface FigmaComponentSet {
+  key: string;
+  name: string;
+  description?: string;
+  fileKey: string;
+  nodeId: string;
+  thumbnailUrl?: string;
+  updatedAt?: string;
+  containingFrame?: FigmaContainingFrame;
+}
+
+/**
+ * The frame and page a published component or component set sits in.
+ */
+export interface FigmaContainingFrame {
+  nodeId?: string;
+  name?: string;
+  pageId: string;
+  pageName: string;
 }
 
 /**
@@ -433,3 +655,88 @@ export interface FigmaStyle {
   description?: string;
   styleType: string;
 }
+
+/**
+ * Represents a published style as returned by the styles endpoints.
+ */
+export interface FigmaPublishedStyle {
+  key: string;
+  file_key: string;
+  node_id: string;
+  style_type: 'FILL' | 'TEXT' | 'EFFECT' | 'GRID';
+  name: string;
+  description: string;
+  thumbnail_url?: string;
+  created_at?: string;
+  updated_at?: string;
+  sort_position?: string;
+}
+
+/**
+ * Represents a reference from a variable value or node property to a variable.
+ */
+export interface VariableAlias {
+  type: 'VARIABLE_ALIAS';
+  id: string;
+}
+
+/**
+ * Represents the value of a variable in one mode.
+ */
+export type VariableValue = boolean | number | string | Color | VariableAlias;
+
+/**
+ * Represents a local variable as returned by the local variables endpoint.
+ */
+export interface Variable {
+  id: string;
+  name: string;
+  key: string;
+  variableCollectionId: string;
+  resolvedType: 'BOOLEAN' | 'FLOAT' | 'STRING' | 'COLOR';
+  valuesByMode: { [modeId: string]: VariableValue };
+  remote: boolean;
+  description: string;
+  hiddenFromPublishing: boolean;
+  scopes: string[];
+  codeSyntax: { WEB?: string; ANDROID?: string; iOS?: string };
+  deletedButReferenced?: boolean;
+}
+
+/**
+ * Represents a local collection of variables and the modes they define values for.
+ */
+export interface VariableCollection {
+  id: string;
+  name: string;
+  key: string;
+  modes: { modeId: string; name: string }[];
+  defaultModeId: string;
+  remote: boolean;
+  hiddenFromPublishing: boolean;
+  variableIds: string[];
+}
+
+/**
+ * Represents a published variable. Published variables carry no values.
+ */
+export interface PublishedVariable {
+  id: string;
+  subscribed_id: string;
+  name: string;
+  key: string;
+  variableCollectionId: string;
+  resolvedDataType: 'BOOLEAN' | 'FLOAT' | 'STRING' | 'COLOR';
+  updatedAt: string;
+}
+
+/**
+ * Represents a published variable collection.
+ */
+export interface PublishedVariableCollection {
+  id: string;
+  subscribed_id: string;
+  name: string;
+  key: string;
+  updatedAt: string;
+}
@@ -0,0 +1,172 @@
+import { colorToHex } from './color.js';
+import type {
+  Color,
+  SceneNode,
+  Variable,
+  VariableAlias,
+  VariableCollection,
+  VariableValue,
+} from './types.js';
+
+/**
+ * The `meta` object returned by GET /files/{key}/variables/local.
+ */
+export interface LocalVariables {
+  variables: { [id: string]: Variable };
+  variableCollections: { [id: string]: VariableCollection };
+}
+
+/**
+ * The value of a variable in one mode, with aliases followed to the end.
+ */
+export interface ResolvedModeValue {
+  value: VariableValue;
+  resolvedValue?: boolean | number | string;
+  aliasChain?: string[];
+  unresolved?: string;
+}
+
+export interface ResolvedVariable {
+  id: string;
+  name: string;
+  collection: string;
+  resolvedType: Variable['resolvedType'];
+  description?: string;
+  scopes: string[];
+  codeSyntax: Variable['codeSyntax'];
+  valuesByMode: { [modeName: string]: ResolvedModeValue };
+}
+
+export interface ResolvedVariableCollection {
+  id: string;
+  name: string;
+  modes: string[];
+  defaultMode: string;
+  variables: ResolvedVariable[];
+}
+
+export function isVariableAlias(value: unknown): value is VariableAlias {
+  return typeof value === 'object' && value !== null && (value as any).type === 'VARIABLE_ALIAS';
+}
+
+function isColor(value: unknown): value is Color {
+  return typeof value === 'object' && value !== null && 'r' in value && 'g' in value && 'b' in value;
+}
+
+function modeFor(meta: LocalVariables, from: Variable, to: Variable, modeId: string): string {
+  if (from.variableCollectionId === to.variableCollectionId) return modeId;
+  const collection = meta.variableCollections[to.variableCollectionId];
+  if (!collection) return modeId;
+  // Aliases into another collection resolve in that collection's default mode
+  return collection.modes.some((mode) => mode.modeId === modeId) ? modeId : collection.defaultModeId;
+}
+
+/**
+ * Follows alias chains from a variable's value in one mode to a final value.
+ * Aliases to variables that are not in this file, and cycles, are reported
+ * as unresolved instead of throwing.
+ */
+export function resolveVariableValue(meta: LocalVariables, variable: Variable, modeId: string): ResolvedModeValue {
+  const raw = variable.valuesByMode[modeId];
+  const aliasChain: string[] = [];
+  const seen = new Set([variable.id]);
+  let current = variable;
+  let currentMode = modeId;
+  let value = raw;
+
+  while (isVariableAlias(value)) {
+    const target = meta.variables[value.id];
+    if (!target) {
+      return { value: raw, aliasChain, unresolved: `Alias to ${value.id} is not available in this file` };
+    }
+    if (seen.has(target.id)) {
+      return { value: raw, aliasChain, unresolved: `Alias cycle through ${target.name}` };
+    }
+    seen.add(target.id);
+    aliasChain.push(target.name);
+    currentMode = modeFor(meta, current, target, currentMode);
+    current = target;
+    value = target.valuesByMode[currentMode];
+  }
+
+  if (value === undefined) {
+    return { value: raw, aliasChain, unresolved: 'No value is defined for this mode' };
+  }
+  return {
+    value: raw,
+    resolvedValue: isColor(value) ? colorToHex(value) : value,
+    ...(aliasChain.length > 0 ? { aliasChain } : {}),
+  };
+}
+
+export function resolveVariable(meta: LocalVariables, variable: Variable): ResolvedVariable {
+  const collection = meta.variableCollections[variable.variableCollectionId];
+  const modes = collection?.modes ?? Object.keys(variable.valuesByMode).map((modeId) => ({ modeId, name: modeId }));
+
+  const valuesByMode: { [modeName: string]: ResolvedModeValue } = {};
+  for (const mode of modes) {
+    if (mode.modeId in variable.valuesByMode) {
+      valuesByMode[mode.name] = resolveVariableValue(meta, variable, mode.modeId);
+    }
+  }
+
+  return {
+    id: variable.id,
+    name: variable.name,
+    collection: collection?.name ?? variable.variableCollectionId,
+    resolvedType: variable.resolvedType,
+    description: variable.description || undefined,
+    scopes: variable.scopes,
+    codeSyntax: variable.codeSyntax,
+    valuesByMode,
+  };
+}
+
+/**
+ * Groups local variables by collection and resolves every value in every mode.
+ */
+export function resolveLocalVariables(meta: LocalVariables): ResolvedVariableCollection[] {
+  return Object.values(meta.variableCollections).map((collection) => ({
+    id: collection.id,
+    name: collection.name,
+    modes: collection.modes.map((mode) => mode.name),
+    defaultMode:
+      collection.modes.find((mode) => mode.modeId === collection.defaultModeId)?.name ?? collection.defaultModeId,
+    variables: collection.variableIds
+      .map((id) => meta.variables[id])
+      .filter((variable): variable is Variable => Boolean(variable))
+      .map((variable) => resolveVariable(meta, variable)),
+  }));
+}
+
+function collectAliases(value: unknown, ids: Set<string>) {
+  if (isVariableAlias(value)) {
+    ids.add(value.id);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectAliases(item, ids));
+  } else if (typeof value === 'object' && value !== null) {
+    Object.values(value).forEach((item) => collectAliases(item, ids));
+  }
+}
+
+/**
+ * Collects the ids of all variables bound to the given nodes, and by default
+ * their descendants, including variables bound inside paints and effects.
+ */
+export function collectBoundVariableIds(nodes: SceneNode[], includeDescendants = true): Set<string> {
+  const ids = new Set<string>();
+  const stack = [...nodes];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (!node) continue;
+    for (const [key, value] of Object.entries(node)) {
+      if (key !== 'children') {
+        collectAliases(value, ids);
+      }
+    }
+    if (includeDescendants && 'children' in node && Array.isArray(node.children)) {
+      stack.push(...node.children);
+    }
+  }
+  return ids;
+}
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChunkedFigmaClient } from '../build/client.js';
+import { FileCache } from '../build/cache.js';
+import { FigmaAuth } from '../build/auth.js';
+
+const frame = {
+  id: '1:1',
+  name: 'Frame',
+  type: 'FRAME',
+  children: [1, 2, 3, 4].map((i) => ({ id: `1:${i + 1}`, name: `Layer ${i}`, type: 'RECTANGLE' })),
+};
+
+/** A client whose Figma API is a stub recording every request path. */
+function createClient(ttlSeconds, versions) {
+  const client = new ChunkedFigmaClient(
+    new FigmaAuth({ type: 'pat', token: 'test' }, 'config'),
+    new FileCache({ maxEntries: 5, maxSizeMB: 10, ttlSeconds })
+  );
+  const requests = [];
+  client.http.get = async (url, options) => {
+    requests.push(options?.params?.depth ? `${url}?depth=${options.params.depth}` : url);
+    const version = versions.shift() ?? '1';
+    if (url.endsWith('/nodes')) {
+      return { version, nodes: { '1:1': { document: frame, components: {} } } };
+    }
+    return { version, name: 'File', document: { id: '0:0', type: 'DOCUMENT', children: [] } };
+  };
+  return { client, requests };
+}
+
+async function pageThrough(client) {
+  const ids = [];
+  let cursor;
+  do {
+    const page = await client.getFileInfoChunked('file', cursor, undefined, { pageSize: 1 }, ['1:1']);
+    ids.push(...page.nodes.map((node) => node.id));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return ids;
+}
+
+test('pages through a subtree with one /nodes request', async () => {
+  const { client, requests } = createClient(60, []);
+  const ids = await pageThrough(client);
+
+  assert.deepEqual(ids, ['1:1', '1:2', '1:3', '1:4', '1:5']);
+  assert.deepEqual(requests, ['/files/file/nodes']);
+});
+
+test('revalidates cached nodes past their TTL by file version', async () => {
+  const { client, requests } = createClient(0, ['1', '1', '2', '2']);
+  await client.getFileInfoChunked('file', undefined, undefined, {}, ['1:1']);
+  await client.getFileInfoChunked('file', undefined, undefined, {}, ['1:1']);
+  await client.getFileInfoChunked('file', undefined, undefined, {}, ['1:1']);
+
+  assert.deepEqual(requests, [
+    '/files/file/nodes',
+    '/files/file?depth=1',
+    '/files/file?depth=1',
+    '/files/file/nodes',
+  ]);
+});